@@ -1,13 +1,41 @@
 import { useReducer, useCallback, useEffect, useState, useRef, useMemo } from 'react';
-import { editorReducer, createInitialState, createGrid } from './reducer';
-import { imageToGrid, loadImageFile, getImageData, fixGridLimits, imageDataToBase64, base64ToImageData, DEFAULT_RENDER_OPTIONS } from './imageToGrid';
-import type { RenderOptions } from './imageToGrid';
+import { editorReducer, createInitialState, createGrid, extractClipboard } from './reducer';
+import { loadImageFile, getImageData, imageDataToBlob, blobToImageData, imageDataToBase64, base64ToImageData, DEFAULT_RENDER_OPTIONS } from './imageToGrid';
+import { ConversionCancelledError, createConverter } from './conversion';
+import type { ConversionRequest, ConversionResult, Converter } from './conversion';
+import type { LimitReport, RenderOptions } from './imageToGrid';
 import { LEGO_COLORS } from './colors';
 import { config } from './config';
-import { loadTabs, saveTabs, loadFileData, saveFileData, deleteFileData, generateId, saveSourceImage, loadSourceImage, saveZoom, loadZoom } from './storage';
-import type { TabsState } from './storage';
+import {
+  loadTabs, saveTabs, loadFileData, saveFileData, deleteFileData, generateId, saveSourceImage, loadSourceImage,
+  saveZoom, loadZoom, saveClassMask, loadClassMask, saveFraming, loadFraming, saveHeightmap, loadHeightmap,
+  saveRegions, loadRegions, copyTabSource,
+} from './storage';
+import type { FileData, Snapshot, TabsState } from './storage';
+import { flattenLayers, getActiveLayer, replaceBaseGrid } from './layers';
+import type { Cell, Clipboard, EditorState, Grid, Layer } from './types';
+import { DEFAULT_SYMMETRY } from './symmetry';
+import type { SymmetrySettings } from './symmetry';
+import { createMask, isMaskEmpty, paintMask } from './classificationMask';
+import { defaultFraming, frameImage, framingRect } from './imageFraming';
+import type { ImageFraming, Orientation } from './imageFraming';
+import { paletteSnapshot, parseProjectFile, ProjectFileError, remapColors, serializeProjectFile, unknownColors } from './projectFile';
+import type { ProjectEncoding, ProjectFile } from './projectFile';
+import { createRegion, regionSelection } from './renderRegions';
+import { SNAPSHOT_INTERVAL, takeSnapshot } from './snapshots';
+import type { RenderRegion } from './renderRegions';
+import type { ClassificationMask, MaskValue } from './classificationMask';
 import CanvasEditor from './CanvasEditor';
 import ColorPalette from './ColorPalette';
+import LayersPanel from './LayersPanel';
+import HistoryPanel from './HistoryPanel';
+import ImportImageDialog from './ImportImageDialog';
+import MaskPanel from './MaskPanel';
+import RegionsPanel from './RegionsPanel';
+import RemapColorsDialog from './RemapColorsDialog';
+import SnapshotBrowser from './SnapshotBrowser';
+import ReplaceColorsDialog from './ReplaceColorsDialog';
+import StorageStatus from './StorageStatus';
 import Toolbar from './Toolbar';
 import TabBar from './TabBar';
 import './App.css';
@@ -19,6 +47,38 @@ const FULL_LONG = Math.max(PLATE_W, PLATE_H);
 const FULL_SHORT = Math.min(PLATE_W, PLATE_H);
 const CELL_SIZE = 16; // must match CanvasEditor
 
+function gridSizeFor(orientation: Orientation): [number, number] {
+  return orientation === 'landscape' ? [FULL_LONG, FULL_SHORT] : [FULL_SHORT, FULL_LONG];
+}
+
+// The imported image as conversions see it; no framing = the legacy full-image stretch
+interface ImportedImage {
+  data: ImageData;
+  framing: ImageFraming | null;
+  framed: ImageData;
+  heightmap: ImageData | null; // as attached, covering the same extent as data
+  framedHeightmap: ImageData | null;
+}
+
+function importImage(data: ImageData, framing: ImageFraming | null, heightmap: ImageData | null = null): ImportedImage {
+  if (!framing) return { data, framing, framed: data, heightmap, framedHeightmap: heightmap };
+  // The rect is normalized, so the same crop lines the heightmap up with the image
+  const rect = framingRect(framing, data.width, data.height, ...gridSizeFor(framing.orientation));
+  return { data, framing, framed: frameImage(data, rect), heightmap, framedHeightmap: heightmap && frameImage(heightmap, rect) };
+}
+
+// A tab's saved source image with its framing and heightmap
+async function loadImportedImage(id: string): Promise<ImportedImage | null> {
+  const savedImg = loadSourceImage(id);
+  if (!savedImg) return null;
+  const savedHeightmap = loadHeightmap(id);
+  const [data, heightmap] = await Promise.all([
+    blobToImageData(savedImg),
+    savedHeightmap ? blobToImageData(savedHeightmap).catch(() => null) : null,
+  ]);
+  return importImage(data, loadFraming(id), heightmap);
+}
+
 function computeFitZoom(gridW: number, gridH: number, container: HTMLElement | null): number {
   if (!container) return 1;
   const pad = 40; // 20px padding on each side
@@ -29,6 +89,16 @@ function computeFitZoom(gridW: number, gridH: number, container: HTMLElement | n
   return Math.max(0.25, Math.min(8, Math.min(availW / canvasW, availH / canvasH)));
 }
 
+// Layers are only stored once the user has added some on top of the base map
+function toFileData(state: EditorState): FileData {
+  return {
+    grid: state.grid,
+    width: state.width,
+    height: state.height,
+    layers: state.layers.length > 1 ? state.layers : undefined,
+  };
+}
+
 function App() {
   const [tabsState, setTabsState] = useState<TabsState>(() => {
     const saved = loadTabs();
@@ -39,22 +109,56 @@ function App() {
 
   const [undoable, dispatch] = useReducer(editorReducer, undefined, () => {
     const fileData = loadFileData(tabsState.activeTabId);
-    if (fileData) return createInitialState(fileData.width, fileData.height, fileData.grid);
+    if (fileData) return createInitialState(fileData.width, fileData.height, fileData.grid, fileData.layers);
     return createInitialState(PLATE_W, PLATE_H);
   });
 
   const state = undoable.present;
+  const activeLayer = getActiveLayer(state);
 
   const [zoom, setZoom] = useState(() => loadZoom(tabsState.activeTabId) ?? 1);
   const canvasAreaRef = useRef<HTMLElement>(null);
-  const importedImageRef = useRef<{ data: ImageData; aspect: number } | null>(null);
-  const [hasImportedImage, setHasImportedImage] = useState(false);
+  const importedImageRef = useRef<ImportedImage | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ data: ImageData; framing: ImageFraming; isNew: boolean } | null>(null);
+  // A project file waiting on the user to remap colors the palette doesn't have
+  const [pendingProject, setPendingProject] = useState<{ file: ProjectFile; unknown: string[] } | null>(null);
+  const [hasImportedImage, setHasImportedImage] = useState(() => loadSourceImage(tabsState.activeTabId) !== null);
+  const [hasHeightmap, setHasHeightmap] = useState(false);
   const [resolution, setResolution] = useState(FULL_LONG);
   const [limitPieces, setLimitPieces] = useState(true);
+  const [limitReport, setLimitReport] = useState<LimitReport | null>(null);
   const currentTabRef = useRef(tabsState.activeTabId);
   const didInitialFit = useRef(false);
   const [renderOptions, setRenderOptions] = useState<RenderOptions>({ ...DEFAULT_RENDER_OPTIONS });
   const [showBasePlates, setShowBasePlates] = useState(false);
+  const [symmetry, setSymmetry] = useState<SymmetrySettings>(DEFAULT_SYMMETRY);
+  // Lives outside the editor state so it survives tab switches and undo
+  const [clipboard, setClipboard] = useState<Clipboard | null>(null);
+  const [showReplaceColors, setShowReplaceColors] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [conversionProgress, setConversionProgress] = useState<number | null>(null);
+  const converterRef = useRef<Converter | null>(null);
+  // Water/land overrides for the imported image; the ref feeds conversions
+  // started in the same tick as a paint stroke ends
+  const [classMask, setClassMaskState] = useState<ClassificationMask | null>(() => loadClassMask(tabsState.activeTabId));
+  const classMaskRef = useRef(classMask);
+  const [maskSource, setMaskSource] = useState<ImageData | null>(null);
+  const [maskBrush, setMaskBrush] = useState<MaskValue>('water');
+  const [maskBrushSize, setMaskBrushSize] = useState(3);
+
+  const setClassMask = useCallback((mask: ClassificationMask | null) => {
+    classMaskRef.current = mask;
+    setClassMaskState(mask);
+  }, []);
+
+  // Regional render overrides, persisted per tab as they change
+  const [regions, setRegionsState] = useState<RenderRegion[]>(() => loadRegions(tabsState.activeTabId));
+  const regionsRef = useRef(regions);
+  const setRegions = useCallback((next: RenderRegion[], save = true) => {
+    regionsRef.current = next;
+    setRegionsState(next);
+    if (save) saveRegions(currentTabRef.current, next);
+  }, []);
 
   // Fit zoom to view on initial mount (if no saved zoom)
   useEffect(() => {
@@ -69,6 +173,19 @@ function App() {
     });
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Image conversion worker, shared by all tabs
+  useEffect(() => {
+    const converter = createConverter(setConversionProgress);
+    converterRef.current = converter;
+    return () => converter.dispose();
+  }, []);
+
+  // Latest editor state, for worker results that arrive after further edits
+  const editorStateRef = useRef(state);
+  useEffect(() => {
+    editorStateRef.current = state;
+  }, [state]);
+
   // Save zoom whenever it changes
   useEffect(() => {
     saveZoom(currentTabRef.current, zoom);
@@ -76,14 +193,11 @@ function App() {
 
   // Restore source image on initial load
   useEffect(() => {
-    const savedImg = loadSourceImage(currentTabRef.current);
-    if (savedImg) {
-      setHasImportedImage(true);
-      base64ToImageData(savedImg).then((data) => {
-        importedImageRef.current = { data, aspect: data.width / data.height };
-      }).catch(() => { /* corrupted data — ignore */ });
-    }
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+    loadImportedImage(currentTabRef.current).then((imported) => {
+      importedImageRef.current = imported;
+      setHasHeightmap(imported?.heightmap != null);
+    }).catch(() => { /* corrupted data — ignore */ });
+  }, []);
 
   // Auto-save tabs metadata
   useEffect(() => {
@@ -92,24 +206,38 @@ function App() {
 
   // Auto-save file data
   useEffect(() => {
-    saveFileData(currentTabRef.current, {
-      grid: state.grid,
-      width: state.width,
-      height: state.height,
-    });
-  }, [state.grid, state.width, state.height]);
+    saveFileData(currentTabRef.current, toFileData(state));
+  }, [state.grid, state.layers, state.width, state.height]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Auto snapshot on a timer, for whichever tab is open, when its grid changed
+  // since that tab was opened or last snapshotted. Reads the auto-saved copy,
+  // which is always current.
+  const snapshotGridsRef = useRef(new Map<string, FileData['grid']>());
+  useEffect(() => {
+    const id = tabsState.activeTabId;
+    const grids = snapshotGridsRef.current;
+    if (!grids.has(id)) grids.set(id, loadFileData(id)?.grid ?? []);
+  }, [tabsState.activeTabId]);
+
+  useEffect(() => {
+    const grids = snapshotGridsRef.current;
+    const timer = setInterval(() => {
+      const tabId = currentTabRef.current;
+      const data = loadFileData(tabId);
+      if (!data || data.grid === grids.get(tabId)) return;
+      grids.set(tabId, data.grid);
+      takeSnapshot(tabId, data, 'auto').catch((err) => console.error('Auto snapshot failed:', err));
+    }, SNAPSHOT_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
 
   // Tab operations
   const handleSelectTab = useCallback((id: string) => {
     if (id === currentTabRef.current) return;
-    saveFileData(currentTabRef.current, {
-      grid: state.grid,
-      width: state.width,
-      height: state.height,
-    });
+    saveFileData(currentTabRef.current, toFileData(state));
     const fileData = loadFileData(id);
     if (fileData) {
-      dispatch({ type: 'LOAD_GRID', grid: fileData.grid, width: fileData.width, height: fileData.height });
+      dispatch({ type: 'LOAD_GRID', grid: fileData.grid, width: fileData.width, height: fileData.height, layers: fileData.layers });
     } else {
       dispatch({ type: 'LOAD_GRID', grid: createGrid(PLATE_W, PLATE_H), width: PLATE_W, height: PLATE_H });
     }
@@ -125,25 +253,32 @@ function App() {
       const gh = fd?.height ?? PLATE_H;
       requestAnimationFrame(() => setZoom(computeFitZoom(gw, gh, canvasAreaRef.current)));
     }
+    setClassMask(loadClassMask(id));
+    setRegions(loadRegions(id), false);
+    setMaskSource(null);
+    setLimitReport(null);
     // Restore source image if saved
-    const savedImg = loadSourceImage(id);
-    if (savedImg) {
+    setHasHeightmap(false);
+    if (loadSourceImage(id)) {
       setHasImportedImage(true);
-      base64ToImageData(savedImg).then((data) => {
-        importedImageRef.current = { data, aspect: data.width / data.height };
+      loadImportedImage(id).then((imported) => {
+        if (currentTabRef.current !== id) return;
+        importedImageRef.current = imported;
+        setHasHeightmap(imported?.heightmap != null);
+      }).catch((err) => {
+        if (currentTabRef.current !== id) return;
+        console.error('Restoring source image failed:', err);
+        importedImageRef.current = null;
+        setHasImportedImage(false);
       });
     } else {
       setHasImportedImage(false);
       importedImageRef.current = null;
     }
-  }, [state.grid, state.width, state.height]);
+  }, [state, setClassMask, setRegions]);
 
   const handleNewTab = useCallback(() => {
-    saveFileData(currentTabRef.current, {
-      grid: state.grid,
-      width: state.width,
-      height: state.height,
-    });
+    saveFileData(currentTabRef.current, toFileData(state));
     const id = generateId();
     dispatch({ type: 'LOAD_GRID', grid: createGrid(PLATE_W, PLATE_H), width: PLATE_W, height: PLATE_H });
     currentTabRef.current = id;
@@ -152,11 +287,17 @@ function App() {
       activeTabId: id,
     }));
     setHasImportedImage(false);
+    setHasHeightmap(false);
     importedImageRef.current = null;
+    setClassMask(null);
+    setRegions([], false);
+    setMaskSource(null);
+    setLimitReport(null);
     requestAnimationFrame(() => setZoom(computeFitZoom(PLATE_W, PLATE_H, canvasAreaRef.current)));
-  }, [state.grid, state.width, state.height]);
+  }, [state, setClassMask, setRegions]);
 
   const handleCloseTab = useCallback((id: string) => {
+    const closingActive = id === currentTabRef.current;
     setTabsState(prev => {
       const remaining = prev.tabs.filter(t => t.id !== id);
 
@@ -164,6 +305,8 @@ function App() {
         const newId = generateId();
         dispatch({ type: 'LOAD_GRID', grid: createGrid(PLATE_W, PLATE_H), width: PLATE_W, height: PLATE_H });
         currentTabRef.current = newId;
+        setClassMask(null);
+        setRegions([], false);
         deleteFileData(id);
         return { tabs: [{ id: newId, name: 'Untitled' }], activeTabId: newId };
       }
@@ -173,11 +316,13 @@ function App() {
         const newActive = remaining[Math.min(idx, remaining.length - 1)];
         const fileData = loadFileData(newActive.id);
         if (fileData) {
-          dispatch({ type: 'LOAD_GRID', grid: fileData.grid, width: fileData.width, height: fileData.height });
+          dispatch({ type: 'LOAD_GRID', grid: fileData.grid, width: fileData.width, height: fileData.height, layers: fileData.layers });
         } else {
           dispatch({ type: 'LOAD_GRID', grid: createGrid(PLATE_W, PLATE_H), width: PLATE_W, height: PLATE_H });
         }
         currentTabRef.current = newActive.id;
+        setClassMask(loadClassMask(newActive.id));
+        setRegions(loadRegions(newActive.id), false);
         deleteFileData(id);
         return { tabs: remaining, activeTabId: newActive.id };
       }
@@ -185,9 +330,14 @@ function App() {
       deleteFileData(id);
       return { ...prev, tabs: remaining };
     });
+    // A background tab's image was never loaded, so the open one's stays
+    if (!closingActive) return;
     setHasImportedImage(false);
+    setHasHeightmap(false);
     importedImageRef.current = null;
-  }, []);
+    setMaskSource(null);
+    setLimitReport(null);
+  }, [setClassMask, setRegions]);
 
   const handleRenameTab = useCallback((id: string, name: string) => {
     setTabsState(prev => ({
@@ -196,6 +346,50 @@ function App() {
     }));
   }, []);
 
+  // Snapshots restore through LOAD_GRID, so a restore can be undone
+  const handleRestoreSnapshot = useCallback((snapshot: Snapshot) => {
+    const { data } = snapshot;
+    dispatch({ type: 'LOAD_GRID', grid: data.grid, width: data.width, height: data.height, layers: data.layers });
+    if (data.width !== state.width || data.height !== state.height) {
+      requestAnimationFrame(() => setZoom(computeFitZoom(data.width, data.height, canvasAreaRef.current)));
+    }
+    setShowSnapshots(false);
+  }, [dispatch, state.width, state.height]);
+
+  // A new tab with the snapshot's grid and the current tab's source image, so it can still re-render
+  const handleForkSnapshot = useCallback((snapshot: Snapshot) => {
+    const id = generateId();
+    const tab = tabsState.tabs.find((t) => t.id === currentTabRef.current);
+    const name = `${tab?.name ?? 'Untitled'} (${new Date(snapshot.createdAt).toLocaleString()})`;
+    saveFileData(id, snapshot.data);
+    copyTabSource(currentTabRef.current, id);
+    setTabsState((prev) => ({ ...prev, tabs: [...prev.tabs, { id, name }] }));
+    handleSelectTab(id);
+    setShowSnapshots(false);
+  }, [tabsState.tabs, handleSelectTab]);
+
+  // Clipboard operations
+  // Copy and cut read from the active layer, like every other edit
+  const handleCopy = useCallback(() => {
+    const layer = getActiveLayer(state);
+    const clip = layer && extractClipboard(layer.grid, state.selection.cells);
+    if (clip) setClipboard(clip);
+  }, [state]);
+
+  const handleCut = useCallback(() => {
+    const layer = getActiveLayer(state);
+    const clip = layer && extractClipboard(layer.grid, state.selection.cells);
+    if (!clip) return;
+    setClipboard(clip);
+    dispatch({ type: 'DELETE_SELECTION' });
+  }, [state]);
+
+  const handlePaste = useCallback(() => {
+    if (!clipboard) return;
+    if (state.floating) dispatch({ type: 'COMMIT_FLOATING' });
+    dispatch({ type: 'PASTE', clipboard });
+  }, [clipboard, state.floating]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -211,6 +405,31 @@ function App() {
         dispatch({ type: 'REDO' });
         return;
       }
+      if ((e.metaKey || e.ctrlKey) && e.shiftKey && e.key.toLowerCase() === 'i') {
+        e.preventDefault();
+        dispatch({ type: 'INVERT_SELECTION' });
+        return;
+      }
+      // Copy / Cut / Paste; with nothing selected or copied, the browser's own clipboard handles them
+      if ((e.metaKey || e.ctrlKey) && ['c', 'x', 'v'].includes(e.key.toLowerCase())) {
+        const key = e.key.toLowerCase();
+        if (key === 'v' ? !clipboard : state.selection.cells.size === 0) return;
+        e.preventDefault();
+        if (key === 'c') handleCopy();
+        else if (key === 'x') handleCut();
+        else handlePaste();
+        return;
+      }
+      // Arrow keys nudge the floating layer, lifting the selection first if needed
+      if (e.key.startsWith('Arrow') && (state.floating || state.selection.cells.size > 0)) {
+        e.preventDefault();
+        const step = e.shiftKey ? 10 : 1;
+        const dRow = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0;
+        const dCol = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+        if (!state.floating) dispatch({ type: 'LIFT_SELECTION' });
+        dispatch({ type: 'MOVE_FLOATING', dRow, dCol });
+        return;
+      }
       switch (e.key.toLowerCase()) {
         case 'h':
           dispatch({ type: 'SET_TOOL', tool: 'hand' });
@@ -221,19 +440,44 @@ function App() {
         case 'e':
           dispatch({ type: 'SET_TOOL', tool: 'eraser' });
           break;
+        case 'f':
+          dispatch({ type: 'SET_TOOL', tool: 'fill' });
+          break;
+        case 'l':
+          dispatch({ type: 'SET_TOOL', tool: 'line' });
+          break;
+        case 'r':
+          dispatch({ type: 'SET_TOOL', tool: 'rect' });
+          break;
+        case 'o':
+          dispatch({ type: 'SET_TOOL', tool: 'ellipse' });
+          break;
         case 's':
           if (!(e.metaKey || e.ctrlKey)) {
             dispatch({ type: 'SET_TOOL', tool: 'select' });
           }
           break;
+        case 'w':
+          dispatch({ type: 'SET_TOOL', tool: 'wand' });
+          break;
+        case 'a':
+          if (!(e.metaKey || e.ctrlKey)) {
+            dispatch({ type: 'SET_TOOL', tool: 'lasso' });
+          }
+          break;
         case 'delete':
         case 'backspace':
-          if (state.selection.cells.size > 0) {
+          if (state.floating) {
+            dispatch({ type: 'CANCEL_FLOATING' });
+          } else if (state.selection.cells.size > 0) {
             dispatch({ type: 'DELETE_SELECTION' });
           }
           break;
+        case 'enter':
+          if (state.floating) dispatch({ type: 'COMMIT_FLOATING' });
+          break;
         case 'escape':
-          dispatch({ type: 'CLEAR_SELECTION' });
+          dispatch({ type: state.floating ? 'CANCEL_FLOATING' : 'CLEAR_SELECTION' });
           break;
         case '=':
         case '+':
@@ -249,7 +493,7 @@ function App() {
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [state.selection.cells.size]);
+  }, [state.selection.cells.size, state.floating, clipboard, handleCopy, handleCut, handlePaste]);
 
   const handleExport = useCallback(() => {
     const canvas = document.querySelector('canvas');
@@ -260,122 +504,388 @@ function App() {
     link.click();
   }, []);
 
-  const handleExportJSON = useCallback(() => {
+  const handleExportJSON = useCallback((encoding: ProjectEncoding, embedSource: boolean) => {
     const tab = tabsState.tabs.find(t => t.id === currentTabRef.current);
-    const payload = {
-      version: 1,
-      name: tab?.name ?? 'Untitled',
+    const name = tab?.name ?? 'Untitled';
+    const imported = importedImageRef.current;
+    const json = serializeProjectFile({
+      name,
       width: state.width,
       height: state.height,
       grid: state.grid,
+      layers: state.layers.length > 1 ? state.layers : undefined,
       renderOptions,
       limitPieces,
       resolution,
       showBasePlates,
-    };
-    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+      colors: paletteSnapshot(state.grid),
+      source: embedSource && imported ? {
+        image: imageDataToBase64(imported.data),
+        heightmap: imported.heightmap ? imageDataToBase64(imported.heightmap) : undefined,
+        framing: imported.framing ?? undefined,
+        mask: classMask && !isMaskEmpty(classMask) ? classMask : undefined,
+        regions: regions.length > 0 ? regions : undefined,
+      } : undefined,
+    }, encoding);
+    const blob = new Blob([json], { type: 'application/json' });
     const link = document.createElement('a');
-    link.download = `${payload.name.replace(/[^a-z0-9_-]/gi, '_')}.dotmap.json`;
+    link.download = `${name.replace(/[^a-z0-9_-]/gi, '_')}.dotmap.json`;
     link.href = URL.createObjectURL(blob);
     link.click();
     URL.revokeObjectURL(link.href);
-  }, [state.grid, state.width, state.height, renderOptions, limitPieces, resolution, showBasePlates, tabsState.tabs]);
+  }, [
+    state.grid, state.layers, state.width, state.height, renderOptions, limitPieces, resolution, showBasePlates,
+    tabsState.tabs, classMask, regions,
+  ]);
+
+  // Apply a validated project to the current tab, restoring its embedded source image if it has one
+  const loadProject = useCallback(async (data: ProjectFile) => {
+    dispatch({ type: 'LOAD_GRID', grid: data.grid, width: data.width, height: data.height, layers: data.layers });
+    if (data.renderOptions) setRenderOptions(data.renderOptions);
+    if (data.limitPieces !== undefined) setLimitPieces(data.limitPieces);
+    if (data.resolution !== undefined) setResolution(data.resolution);
+    if (data.showBasePlates !== undefined) setShowBasePlates(data.showBasePlates);
+    if (data.name) {
+      handleRenameTab(currentTabRef.current, data.name);
+    }
+    requestAnimationFrame(() => setZoom(computeFitZoom(data.width, data.height, canvasAreaRef.current)));
+
+    const { source } = data;
+    if (!source) return;
+    const tabId = currentTabRef.current;
+    try {
+      const [image, heightmap] = await Promise.all([
+        base64ToImageData(source.image),
+        source.heightmap ? base64ToImageData(source.heightmap) : null,
+      ]);
+      if (currentTabRef.current !== tabId) return;
+      importedImageRef.current = importImage(image, source.framing ?? null, heightmap);
+      setHasImportedImage(true);
+      setHasHeightmap(heightmap !== null);
+      setMaskSource(null);
+      setClassMask(source.mask ?? null);
+      setRegions(source.regions ?? []);
+      saveClassMask(tabId, source.mask ?? null);
+      saveFraming(tabId, source.framing ?? null);
+      saveSourceImage(tabId, await imageDataToBlob(image));
+      saveHeightmap(tabId, heightmap && await imageDataToBlob(heightmap));
+    } catch (err) {
+      console.error('Embedded source image failed to load:', err);
+      alert('The project loaded, but its embedded source image could not be read.');
+    }
+  }, [dispatch, handleRenameTab, setClassMask, setRegions]);
 
   const handleImportJSON = useCallback((file: File) => {
     const reader = new FileReader();
     reader.onload = () => {
       try {
-        const data = JSON.parse(reader.result as string);
-        if (!data.grid || !data.width || !data.height) throw new Error('Invalid file');
-        dispatch({ type: 'LOAD_GRID', grid: data.grid, width: data.width, height: data.height });
-        if (data.renderOptions) setRenderOptions(data.renderOptions);
-        if (typeof data.limitPieces === 'boolean') setLimitPieces(data.limitPieces);
-        if (typeof data.resolution === 'number') setResolution(data.resolution);
-        if (typeof data.showBasePlates === 'boolean') setShowBasePlates(data.showBasePlates);
-        if (data.name) {
-          handleRenameTab(currentTabRef.current, data.name);
-        }
-        requestAnimationFrame(() => setZoom(computeFitZoom(data.width, data.height, canvasAreaRef.current)));
-      } catch {
-        alert('Failed to load .dotmap.json file.');
+        const data = parseProjectFile(reader.result as string);
+        const unknown = unknownColors(data);
+        if (unknown.length > 0) setPendingProject({ file: data, unknown });
+        else loadProject(data);
+      } catch (err) {
+        // Schema errors name the offending field; anything else is unexpected
+        const detail = err instanceof ProjectFileError ? `\n${err.message}` : '';
+        if (!detail) console.error('Project import failed:', err);
+        alert(`Failed to load .dotmap.json file.${detail}`);
       }
     };
     reader.readAsText(file);
-  }, [dispatch, handleRenameTab]);
+  }, [loadProject]);
+
+  const handleRemapConfirm = useCallback((mapping: Map<string, Cell>) => {
+    if (!pendingProject) return;
+    setPendingProject(null);
+    loadProject(remapColors(pendingProject.file, mapping));
+  }, [pendingProject, loadProject]);
 
   const handleZoomIn = useCallback(() => setZoom((z) => Math.min(8, z * 1.2)), []);
   const handleZoomOut = useCallback(() => setZoom((z) => Math.max(0.25, z / 1.2)), []);
   const handleZoomReset = useCallback(() => setZoom(1), []);
 
-  const handleImageUpload = useCallback(
-    async (file: File) => {
+  // Runs a job in the worker; resolves to null when a newer request
+  // superseded it or the tab changed while it was running
+  const runWorker = useCallback(async (job: (converter: Converter) => Promise<ConversionResult>): Promise<ConversionResult | null> => {
+    const tabId = currentTabRef.current;
+    try {
+      const result = await job(converterRef.current!);
+      return currentTabRef.current === tabId ? result : null;
+    } catch (err) {
+      if (err instanceof ConversionCancelledError) return null;
+      throw err;
+    }
+  }, []);
+
+  const runConversion = useCallback(
+    (request: ConversionRequest) => runWorker((converter) => converter.convert(request)),
+    [runWorker],
+  );
+
+  // Solves piece limits for the current layers, their base swapped for `base` if
+  // given. A fix solved for an older stack would revert layer edits made while the
+  // worker ran, so it is solved again until the layers hold still.
+  const runLimits = useCallback(async (options: RenderOptions, base?: { grid: Grid; width: number; height: number }) => {
+    for (;;) {
+      const { layers, width, height } = editorStateRef.current;
+      const size = base ?? { width, height };
+      const stack = base ? replaceBaseGrid(layers, base.grid, base.width, base.height) : layers;
+      const grid = flattenLayers(stack, size.width, size.height);
+      const result = await runWorker((converter) => converter.limit({ grid, options }));
+      if (!result || editorStateRef.current.layers === layers) return result;
+    }
+  }, [runWorker]);
+
+  // Puts a finished conversion on the canvas, limit-fixed against the layers it
+  // started with, or against the current ones if those were edited meanwhile
+  const applyConversion = useCallback(
+    async (result: ConversionResult, width: number, height: number, options: RenderOptions, limitLayers?: Layer[]) => {
+      let { flattened, limitReport } = result;
+      if (limitLayers && limitLayers !== editorStateRef.current.layers) {
+        const limited = await runLimits(options, { grid: result.grid, width, height });
+        if (!limited) return;
+        flattened = limited.grid;
+        limitReport = limited.limitReport;
+      }
+      setLimitReport(limitReport ?? null);
+      dispatch({ type: 'SET_BASE_GRID', grid: result.grid, width, height, flattened });
+    },
+    [dispatch, runLimits],
+  );
+
+  // New images open the framing dialog first; conversion starts once it's confirmed
+  const handleImageUpload = useCallback(async (file: File) => {
+    try {
+      const img = await loadImageFile(file);
+      const data = getImageData(img);
+      setPendingImport({ data, framing: defaultFraming(data.width, data.height), isNew: true });
+    } catch (err) {
+      console.error('Image upload failed:', err);
+      alert('Failed to load image.');
+    }
+  }, []);
+
+  const handleFrameImage = useCallback(() => {
+    const ref = importedImageRef.current;
+    if (!ref) return;
+    // Tabs imported before framing existed stretch the whole image
+    const framing = ref.framing ?? {
+      ...defaultFraming(ref.data.width, ref.data.height),
+      orientation: state.width >= state.height ? 'landscape' : 'portrait',
+      fit: 'stretch',
+    };
+    setPendingImport({ data: ref.data, framing, isNew: false });
+  }, [state.width, state.height]);
+
+  const handleImportConfirm = useCallback(
+    async (framing: ImageFraming) => {
+      if (!pendingImport) return;
+      const { data, isNew } = pendingImport;
+      setPendingImport(null);
       try {
-        const img = await loadImageFile(file);
-        const data = getImageData(img);
-        const aspect = img.width / img.height;
-        importedImageRef.current = { data, aspect };
+        // A heightmap belongs to the image it was attached to
+        const imported = importImage(data, framing, isNew ? null : importedImageRef.current?.heightmap);
+        if (isNew) {
+          saveHeightmap(currentTabRef.current, null);
+          setHasHeightmap(false);
+        }
+        importedImageRef.current = imported;
         setHasImportedImage(true);
         setResolution(FULL_LONG);
-        // Save source image as base64 (best-effort, may exceed quota)
-        try {
-          saveSourceImage(currentTabRef.current, imageDataToBase64(data));
-        } catch {
-          // localStorage quota exceeded — source image won't persist across refresh
+        // A mask or regions drawn over the previous image or framing no longer line up
+        setClassMask(null);
+        setRegions([]);
+        setMaskSource(null);
+        saveClassMask(currentTabRef.current, null);
+        saveFraming(currentTabRef.current, framing);
+        // Save the source image as PNG; storage failures are reported by storage.ts
+        if (isNew) {
+          const tabId = currentTabRef.current;
+          imageDataToBlob(data).then((blob) => saveSourceImage(tabId, blob), (err) => console.error('Encoding source image failed:', err));
         }
-        // Pick landscape or portrait based on image aspect ratio
-        const gw = aspect >= 1 ? FULL_LONG : FULL_SHORT;
-        const gh = aspect >= 1 ? FULL_SHORT : FULL_LONG;
-        let grid = imageToGrid(data, gw, gh, undefined, renderOptions);
-        if (limitPieces) grid = fixGridLimits(grid);
+        const [gw, gh] = gridSizeFor(framing.orientation);
+        const limitLayers = limitPieces ? state.layers : undefined;
+        const result = await runConversion({
+          image: imported.framed,
+          heightmap: imported.framedHeightmap,
+          regions: regionsRef.current,
+          width: gw,
+          height: gh,
+          options: renderOptions,
+          limitLayers,
+        });
+        if (!result) return;
         setLimitPieces(true);
-        dispatch({ type: 'LOAD_GRID', grid, width: gw, height: gh });
+        await applyConversion(result, gw, gh, renderOptions, limitLayers);
         requestAnimationFrame(() => setZoom(computeFitZoom(gw, gh, canvasAreaRef.current)));
       } catch (err) {
-        console.error('Image upload failed:', err);
-        alert('Failed to load image.');
+        console.error('Image conversion failed:', err);
+        alert('Failed to convert image.');
       }
     },
-    [dispatch],
+    [pendingImport, state.layers, renderOptions, limitPieces, runConversion, applyConversion, setClassMask, setRegions],
   );
 
   const handleResolutionChange = useCallback(
-    (detailRes: number) => {
+    async (detailRes: number) => {
       const ref = importedImageRef.current;
       if (!ref) return;
       setResolution(detailRes);
       const gw = state.width;
       const gh = state.height;
-      const grid = imageToGrid(ref.data, gw, gh, detailRes, renderOptions);
-      dispatch({ type: 'LOAD_GRID', grid, width: gw, height: gh });
+      try {
+        const result = await runConversion({
+          image: ref.framed,
+          heightmap: ref.framedHeightmap,
+          regions: regionsRef.current,
+          width: gw,
+          height: gh,
+          detailRes,
+          options: renderOptions,
+          mask: classMaskRef.current,
+        });
+        if (result) dispatch({ type: 'SET_BASE_GRID', grid: result.grid, width: gw, height: gh });
+      } catch (err) {
+        console.error('Image conversion failed:', err);
+      }
     },
-    [dispatch, state.width, state.height],
+    [dispatch, state.width, state.height, renderOptions, runConversion],
   );
 
   const handleRenderOptionsChange = useCallback(
-    (opts: RenderOptions) => {
+    async (opts: RenderOptions) => {
       setRenderOptions(opts);
       const ref = importedImageRef.current;
       if (!ref) return;
       const gw = state.width;
       const gh = state.height;
-      let grid = imageToGrid(ref.data, gw, gh, resolution < Math.max(gw, gh) ? resolution : undefined, opts);
-      if (limitPieces) grid = fixGridLimits(grid);
-      dispatch({ type: 'LOAD_GRID', grid, width: gw, height: gh });
+      const limitLayers = limitPieces ? state.layers : undefined;
+      try {
+        const result = await runConversion({
+          image: ref.framed,
+          heightmap: ref.framedHeightmap,
+          regions: regionsRef.current,
+          width: gw,
+          height: gh,
+          detailRes: resolution < Math.max(gw, gh) ? resolution : undefined,
+          options: opts,
+          mask: classMaskRef.current,
+          limitLayers,
+        });
+        if (result) await applyConversion(result, gw, gh, opts, limitLayers);
+      } catch (err) {
+        console.error('Image conversion failed:', err);
+      }
     },
-    [dispatch, state.width, state.height, resolution, limitPieces],
+    [state.width, state.height, state.layers, resolution, limitPieces, runConversion, applyConversion],
+  );
+
+  const handleMaskEditingChange = useCallback((editing: boolean) => {
+    setMaskSource(editing ? importedImageRef.current?.framed ?? null : null);
+  }, []);
+
+  const handleMaskPaint = useCallback((row: number, col: number) => {
+    const mask = classMaskRef.current ?? createMask(state.width, state.height);
+    const next = paintMask(mask, row, col, state.width, state.height, maskBrushSize, maskBrush);
+    if (next !== classMaskRef.current) setClassMask(next);
+  }, [state.width, state.height, maskBrush, maskBrushSize, setClassMask]);
+
+  // Re-render once per stroke rather than per painted cell
+  const handleMaskStrokeEnd = useCallback(() => {
+    const mask = isMaskEmpty(classMaskRef.current) ? null : classMaskRef.current;
+    saveClassMask(currentTabRef.current, mask);
+    handleRenderOptionsChange(renderOptions);
+  }, [handleRenderOptionsChange, renderOptions]);
+
+  const handleClearMask = useCallback(() => {
+    setClassMask(null);
+    saveClassMask(currentTabRef.current, null);
+    handleRenderOptionsChange(renderOptions);
+  }, [setClassMask, handleRenderOptionsChange, renderOptions]);
+
+  const handleHeightmapUpload = useCallback(async (file: File) => {
+    const ref = importedImageRef.current;
+    if (!ref) return;
+    try {
+      const heightmap = getImageData(await loadImageFile(file));
+      importedImageRef.current = importImage(ref.data, ref.framing, heightmap);
+      setHasHeightmap(true);
+      saveHeightmap(currentTabRef.current, await imageDataToBlob(heightmap));
+      handleRenderOptionsChange({ ...renderOptions, landColoring: 'elevation' });
+    } catch (err) {
+      console.error('Heightmap upload failed:', err);
+      alert('Failed to load heightmap.');
+    }
+  }, [handleRenderOptionsChange, renderOptions]);
+
+  const handleHeightmapRemove = useCallback(() => {
+    const ref = importedImageRef.current;
+    if (!ref) return;
+    importedImageRef.current = importImage(ref.data, ref.framing);
+    setHasHeightmap(false);
+    saveHeightmap(currentTabRef.current, null);
+    handleRenderOptionsChange(renderOptions);
+  }, [handleRenderOptionsChange, renderOptions]);
+
+  const handleAddRegion = useCallback(() => {
+    const region = createRegion(
+      generateId(), `Region ${regionsRef.current.length + 1}`, state.selection.cells, state.width, state.height,
+    );
+    setRegions([...regionsRef.current, region]);
+  }, [state.selection, state.width, state.height, setRegions]);
+
+  const handleRegionChange = useCallback((region: RenderRegion) => {
+    const prev = regionsRef.current.find((r) => r.id === region.id);
+    setRegions(regionsRef.current.map((r) => (r.id === region.id ? region : r)));
+    // Renaming doesn't change the conversion
+    const rendered = (r: RenderRegion) => JSON.stringify([r.cells, r.overrides, r.feather]);
+    if (!prev || rendered(prev) !== rendered(region)) handleRenderOptionsChange(renderOptions);
+  }, [setRegions, handleRenderOptionsChange, renderOptions]);
+
+  const handleRegionReshape = useCallback((region: RenderRegion) => {
+    const cells = createRegion(region.id, region.name, state.selection.cells, state.width, state.height);
+    handleRegionChange({ ...region, width: cells.width, height: cells.height, cells: cells.cells });
+  }, [state.selection, state.width, state.height, handleRegionChange]);
+
+  const handleRegionDelete = useCallback((id: string) => {
+    setRegions(regionsRef.current.filter((r) => r.id !== id));
+    handleRenderOptionsChange(renderOptions);
+  }, [setRegions, handleRenderOptionsChange, renderOptions]);
+
+  const handleRegionSelect = useCallback((region: RenderRegion) => {
+    dispatch({ type: 'SET_SELECTION', cells: regionSelection(region, state.width, state.height) });
+  }, [dispatch, state.width, state.height]);
+
+  const maskEditing = maskSource !== null && renderOptions.conversionMode === 'map';
+  const maskEditor = useMemo(
+    () => maskEditing
+      ? { source: maskSource, mask: classMask, onPaint: handleMaskPaint, onStrokeEnd: handleMaskStrokeEnd }
+      : null,
+    [maskEditing, maskSource, classMask, handleMaskPaint, handleMaskStrokeEnd],
   );
 
   const handleRotate = useCallback((direction: 'cw' | 'ccw') => {
     dispatch({ type: 'ROTATE_GRID', direction });
   }, [dispatch]);
 
-  const handleToggleLimits = useCallback((on: boolean) => {
+  const handleFlip = useCallback((axis: 'horizontal' | 'vertical') => {
+    dispatch({ type: 'FLIP_GRID', axis });
+  }, [dispatch]);
+
+  const handleToggleLimits = useCallback(async (on: boolean) => {
     setLimitPieces(on);
-    if (on) {
-      const fixed = fixGridLimits(state.grid);
-      dispatch({ type: 'LOAD_GRID', grid: fixed, width: state.width, height: state.height });
+    if (!on) {
+      setLimitReport(null);
+      return;
+    }
+    try {
+      const result = await runLimits(renderOptions);
+      if (!result) return;
+      setLimitReport(result.limitReport ?? null);
+      dispatch({ type: 'APPLY_FLATTENED', grid: result.grid });
+    } catch (err) {
+      console.error('Fixing piece limits failed:', err);
     }
-  }, [state.grid, state.width, state.height, dispatch]);
+  }, [renderOptions, runLimits, dispatch]);
 
   const handleExportList = useCallback(() => {
     const counts = new Map<string, number>();
@@ -442,6 +952,7 @@ function App() {
       <header className="app-header">
         <h1>🟡 Dotmaps</h1>
         <span className="subtitle">LEGO Dots Editor</span>
+        <StorageStatus />
       </header>
       <TabBar
         tabs={tabsState.tabs}
@@ -454,10 +965,26 @@ function App() {
       <div className="app-body">
         <aside className="sidebar">
           <ColorPalette activeColor={state.activeColor} dispatch={dispatch} />
+          <LayersPanel layers={state.layers} activeLayerId={state.activeLayerId} dispatch={dispatch} />
+          <HistoryPanel
+            past={undoable.past}
+            future={undoable.future}
+            checkpoints={undoable.checkpoints}
+            tabId={tabsState.activeTabId}
+            dispatch={dispatch}
+            onOpenSnapshots={() => setShowSnapshots(true)}
+          />
           <Toolbar
             activeTool={state.activeTool}
             activeColor={state.activeColor}
+            shapeFilled={state.shapeFilled}
+            wandOptions={state.wandOptions}
             selection={state.selection}
+            floating={state.floating}
+            hasClipboard={clipboard !== null}
+            onCopy={handleCopy}
+            onCut={handleCut}
+            onPaste={handlePaste}
             width={state.width}
             height={state.height}
             dispatch={dispatch}
@@ -473,7 +1000,13 @@ function App() {
             hasImportedImage={hasImportedImage}
             resolution={resolution}
             onResolutionChange={handleResolutionChange}
+            onFrameImage={handleFrameImage}
+            hasHeightmap={hasHeightmap}
+            onHeightmapUpload={handleHeightmapUpload}
+            onHeightmapRemove={handleHeightmapRemove}
             onRotate={handleRotate}
+            onFlip={handleFlip}
+            onReplaceColors={() => setShowReplaceColors(true)}
             canUndo={undoable.past.length > 0}
             canRedo={undoable.future.length > 0}
             onUndo={() => dispatch({ type: 'UNDO' })}
@@ -482,7 +1015,33 @@ function App() {
             onRenderOptionsChange={handleRenderOptionsChange}
             showBasePlates={showBasePlates}
             onToggleBasePlates={setShowBasePlates}
+            symmetry={symmetry}
+            onSymmetryChange={setSymmetry}
           />
+          {hasImportedImage && renderOptions.conversionMode === 'map' && (
+            <MaskPanel
+              editing={maskEditing}
+              onEditingChange={handleMaskEditingChange}
+              brush={maskBrush}
+              onBrushChange={setMaskBrush}
+              brushSize={maskBrushSize}
+              onBrushSizeChange={setMaskBrushSize}
+              hasMask={!isMaskEmpty(classMask)}
+              onClear={handleClearMask}
+            />
+          )}
+          {hasImportedImage && (
+            <RegionsPanel
+              regions={regions}
+              renderOptions={renderOptions}
+              hasSelection={state.selection.cells.size > 0}
+              onAdd={handleAddRegion}
+              onChange={handleRegionChange}
+              onReshape={handleRegionReshape}
+              onDelete={handleRegionDelete}
+              onSelect={handleRegionSelect}
+            />
+          )}
           <div className="toolbar-group">
             <label className="limit-toggle">
               <input
@@ -492,6 +1051,12 @@ function App() {
               />
               Limit pieces
             </label>
+            {limitPieces && limitReport && limitReport.error > 0 && (
+              <div className="limit-report" title="Total perceptual distance of the dots swapped to stay within limits">
+                Color error {limitReport.error.toFixed(1)}
+                {limitReport.solver === 'optimal' && ` (greedy ${limitReport.greedyError.toFixed(1)})`}
+              </div>
+            )}
           </div>
           {limitPieces && colorOverages.length > 0 && (
             <div className="color-warning">
@@ -506,9 +1071,59 @@ function App() {
           )}
         </aside>
         <main className="canvas-area" ref={canvasAreaRef}>
-          <CanvasEditor state={state} dispatch={dispatch} zoom={zoom} onZoomChange={setZoom} showBasePlates={showBasePlates} />
+          {conversionProgress !== null && (
+            <div className="conversion-progress" title="Converting image…">
+              <div className="conversion-progress-bar" style={{ width: `${Math.round(conversionProgress * 100)}%` }} />
+            </div>
+          )}
+          <CanvasEditor
+            state={state}
+            dispatch={dispatch}
+            zoom={zoom}
+            onZoomChange={setZoom}
+            showBasePlates={showBasePlates}
+            symmetry={symmetry}
+            onSymmetryChange={setSymmetry}
+            maskEditor={maskEditor}
+          />
         </main>
       </div>
+      {pendingImport && (
+        <ImportImageDialog
+          image={pendingImport.data}
+          initialFraming={pendingImport.framing}
+          fullLong={FULL_LONG}
+          fullShort={FULL_SHORT}
+          onConfirm={handleImportConfirm}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {pendingProject && (
+        <RemapColorsDialog
+          colors={pendingProject.unknown}
+          snapshot={pendingProject.file.colors ?? []}
+          onConfirm={handleRemapConfirm}
+          onCancel={() => setPendingProject(null)}
+        />
+      )}
+      {showSnapshots && (
+        <SnapshotBrowser
+          tabId={tabsState.activeTabId}
+          current={toFileData(state)}
+          onRestore={handleRestoreSnapshot}
+          onFork={handleForkSnapshot}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+      {showReplaceColors && activeLayer && (
+        <ReplaceColorsDialog
+          grid={activeLayer.grid}
+          selection={state.selection}
+          disabled={activeLayer.locked || !activeLayer.visible}
+          dispatch={dispatch}
+          onClose={() => setShowReplaceColors(false)}
+        />
+      )}
     </div>
   );
 }
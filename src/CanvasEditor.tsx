@@ -1,6 +1,13 @@
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect, useCallback, useMemo } from 'react';
 import { config } from './config';
-import type { EditorState, EditorAction, Tool } from './types';
+import { rasterizeShape } from './shapes';
+import { getActiveLayer } from './layers';
+import { symmetryCells } from './symmetry';
+import type { SymmetrySettings } from './symmetry';
+import { maskValueAt } from './classificationMask';
+import type { ClassificationMask, MaskValue } from './classificationMask';
+import type { ShapeKind } from './shapes';
+import type { EditorState, EditorAction, SelectionMode, Tool } from './types';
 
 const CELL_SIZE = 16;
 const DOT_RADIUS = 6;
@@ -12,15 +19,45 @@ const PLATE_GAP = 4;
 const PLATE_BG = '#222230';
 const PLATE_BORDER = '#555';
 const PLATE_LABEL_COLOR = '#666';
+const SHAPE_PREVIEW_ALPHA = 0.6;
+const FLOATING_STROKE = 'rgba(122, 122, 255, 0.9)';
+const AXIS_STROKE = 'rgba(255, 120, 200, 0.85)';
+const AXIS_GRAB_PX = 6; // how close to an axis a press must land to drag it
+const MASK_TINT: Record<MaskValue, string | null> = {
+  auto: null,
+  water: 'rgba(40, 120, 255, 0.55)',
+  land: 'rgba(90, 200, 60, 0.55)',
+};
+const SHAPE_TOOLS = new Set<Tool>(['line', 'rect', 'ellipse']);
+const EDIT_TOOLS = new Set<Tool>(['pen', 'eraser', 'fill', 'line', 'rect', 'ellipse']);
 
 const [PLATE_W, PLATE_H] = config.basePlates.size;
 
+// Water/land mask painting over the source image; replaces the dots while active
+export interface MaskEditor {
+  source: ImageData | null;
+  mask: ClassificationMask | null;
+  onPaint: (row: number, col: number) => void;
+  onStrokeEnd: () => void;
+}
+
 interface CanvasEditorProps {
   state: EditorState;
   dispatch: React.Dispatch<EditorAction>;
   zoom: number;
   onZoomChange: (zoom: number) => void;
   showBasePlates: boolean;
+  symmetry: SymmetrySettings;
+  onSymmetryChange: (symmetry: SymmetrySettings) => void;
+  maskEditor: MaskEditor | null;
+}
+
+// Shift adds, Alt subtracts, Shift+Alt intersects
+function selectionModeFromEvent(e: React.MouseEvent): SelectionMode {
+  if (e.shiftKey && e.altKey) return 'intersect';
+  if (e.altKey) return 'subtract';
+  if (e.shiftKey) return 'add';
+  return 'replace';
 }
 
 // Compute pixel offset for a grid cell accounting for plate gaps
@@ -34,6 +71,26 @@ function cellToPixel(col: number, row: number, showPlates: boolean): { px: numbe
   };
 }
 
+// Pixel offset of a fractional cell-edge position (axes may sit between or through cells)
+function edgeToPixel(units: number, plateSize: number, showPlates: boolean): number {
+  if (!showPlates) return units * CELL_SIZE;
+  const plate = Math.min(Math.floor(units / plateSize), Math.ceil(units / plateSize) - 1);
+  return units * CELL_SIZE + Math.max(0, plate) * PLATE_GAP;
+}
+
+// Inverse of edgeToPixel, snapped to half cells
+function pixelToEdge(px: number, plateSize: number, showPlates: boolean): number {
+  let units: number;
+  if (!showPlates) {
+    units = px / CELL_SIZE;
+  } else {
+    const step = plateSize * CELL_SIZE + PLATE_GAP;
+    const plate = Math.floor(px / step);
+    units = plate * plateSize + Math.min(px - plate * step, plateSize * CELL_SIZE) / CELL_SIZE;
+  }
+  return Math.round(units * 2) / 2;
+}
+
 function canvasDims(gridW: number, gridH: number, showPlates: boolean): { w: number; h: number } {
   if (!showPlates) return { w: gridW * CELL_SIZE, h: gridH * CELL_SIZE };
   const platesX = Math.ceil(gridW / PLATE_W);
@@ -76,15 +133,44 @@ function cellFromMouse(
   return { row, col };
 }
 
-export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, showBasePlates }: CanvasEditorProps) {
+export default function CanvasEditor({
+  state,
+  dispatch,
+  zoom,
+  onZoomChange,
+  showBasePlates,
+  symmetry,
+  onSymmetryChange,
+  maskEditor,
+}: CanvasEditorProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isPainting = useRef(false);
   const isPanning = useRef(false);
   const panStart = useRef<{ x: number; y: number; scrollLeft: number; scrollTop: number } | null>(null);
   const selectStart = useRef<{ row: number; col: number } | null>(null);
   const selectCurrent = useRef<{ row: number; col: number } | null>(null);
-
-  const { grid, width, height, activeColor, activeTool, selection } = state;
+  const shapeStart = useRef<{ row: number; col: number } | null>(null);
+  const shapeCurrent = useRef<{ row: number; col: number } | null>(null);
+  const floatDrag = useRef<{ row: number; col: number } | null>(null);
+  const lassoPoints = useRef<{ row: number; col: number }[] | null>(null);
+  const axisDrag = useRef<'x' | 'y' | null>(null);
+  const isMaskPainting = useRef(false);
+
+  const { grid, width, height, activeColor, activeTool, shapeFilled, selection, floating } = state;
+
+  // Source pixel under each cell center, shown behind the mask while editing it
+  const maskSource = maskEditor?.source ?? null;
+  const sourceColors = useMemo(() => {
+    if (!maskSource) return null;
+    const { width: imgW, height: imgH, data } = maskSource;
+    return Array.from({ length: height }, (_, r) => Array.from({ length: width }, (_, c) => {
+      const x = Math.min(imgW - 1, Math.floor(((c + 0.5) * imgW) / width));
+      const y = Math.min(imgH - 1, Math.floor(((r + 0.5) * imgH) / height));
+      const i = (y * imgW + x) * 4;
+      return `rgb(${data[i]}, ${data[i + 1]}, ${data[i + 2]})`;
+    }));
+  }, [maskSource, width, height]);
+  const mask = maskEditor?.mask ?? null;
 
   // Draw
   const draw = useCallback(() => {
@@ -137,11 +223,30 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
       }
     }
 
-    // Dots
+    if (maskEditor) {
+      for (let r = 0; r < height; r++) {
+        for (let c = 0; c < width; c++) {
+          const { px, py } = cellToPixel(c, r, showBasePlates);
+          if (sourceColors) {
+            ctx.fillStyle = sourceColors[r][c];
+            ctx.fillRect(px, py, CELL_SIZE, CELL_SIZE);
+          }
+          const tint = mask && MASK_TINT[maskValueAt(mask, r, c, width, height)];
+          if (tint) {
+            ctx.fillStyle = tint;
+            ctx.fillRect(px, py, CELL_SIZE, CELL_SIZE);
+          }
+        }
+      }
+      return;
+    }
+
+    // Dots (cells lifted into the floating layer are drawn with the layer instead)
+    const lifted = floating && floating.liftedFrom.size > 0 ? floating.liftedFrom : null;
     for (let r = 0; r < height; r++) {
       for (let c = 0; c < width; c++) {
         const color = grid[r][c];
-        if (color) {
+        if (color && !lifted?.has(`${r},${c}`)) {
           const { px, py } = cellToPixel(c, r, showBasePlates);
           const cx = px + CELL_SIZE / 2;
           const cy = py + CELL_SIZE / 2;
@@ -180,7 +285,94 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
       ctx.strokeRect(p1.px, p1.py, p2.px + CELL_SIZE - p1.px, p2.py + CELL_SIZE - p1.py);
       ctx.setLineDash([]);
     }
-  }, [grid, width, height, activeTool, selection, showBasePlates]);
+
+    // Lasso path preview
+    if (activeTool === 'lasso' && lassoPoints.current && lassoPoints.current.length > 0) {
+      ctx.strokeStyle = SELECTION_STROKE;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      lassoPoints.current.forEach(({ row, col }, i) => {
+        const { px, py } = cellToPixel(col, row, showBasePlates);
+        if (i === 0) ctx.moveTo(px + CELL_SIZE / 2, py + CELL_SIZE / 2);
+        else ctx.lineTo(px + CELL_SIZE / 2, py + CELL_SIZE / 2);
+      });
+      ctx.closePath();
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // Floating paste layer
+    if (floating) {
+      const { clipboard } = floating;
+      for (const { dRow, dCol, color } of clipboard.cells) {
+        const r = floating.row + dRow;
+        const c = floating.col + dCol;
+        if (r < 0 || r >= height || c < 0 || c >= width) continue;
+        const { px, py } = cellToPixel(c, r, showBasePlates);
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.arc(px + CELL_SIZE / 2, py + CELL_SIZE / 2, DOT_RADIUS, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      const r0 = Math.max(0, floating.row), c0 = Math.max(0, floating.col);
+      const r1 = Math.min(height, floating.row + clipboard.height) - 1;
+      const c1 = Math.min(width, floating.col + clipboard.width) - 1;
+      const p1 = cellToPixel(c0, r0, showBasePlates);
+      const p2 = cellToPixel(c1, r1, showBasePlates);
+      ctx.strokeStyle = FLOATING_STROKE;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 3]);
+      ctx.strokeRect(p1.px, p1.py, p2.px + CELL_SIZE - p1.px, p2.py + CELL_SIZE - p1.py);
+      ctx.setLineDash([]);
+    }
+
+    // Symmetry axes
+    if (symmetry.mode !== 'off') {
+      const ax = edgeToPixel(symmetry.axisX, PLATE_W, showBasePlates);
+      const ay = edgeToPixel(symmetry.axisY, PLATE_H, showBasePlates);
+      ctx.strokeStyle = AXIS_STROKE;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([8, 4]);
+      ctx.beginPath();
+      if (symmetry.mode !== 'horizontal') {
+        ctx.moveTo(ax, 0);
+        ctx.lineTo(ax, dims.h);
+      }
+      if (symmetry.mode !== 'vertical') {
+        ctx.moveTo(0, ay);
+        ctx.lineTo(dims.w, ay);
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+      if (symmetry.mode === 'rotational') {
+        ctx.fillStyle = AXIS_STROKE;
+        ctx.beginPath();
+        ctx.arc(ax, ay, 4, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+
+    // Shape tool preview — ghost dots along the rasterized shape
+    if (SHAPE_TOOLS.has(activeTool) && shapeStart.current && shapeCurrent.current) {
+      const cells = rasterizeShape(activeTool as ShapeKind, shapeStart.current, shapeCurrent.current, shapeFilled);
+      ctx.globalAlpha = SHAPE_PREVIEW_ALPHA;
+      for (const [r, c] of cells) {
+        const { px, py } = cellToPixel(c, r, showBasePlates);
+        ctx.beginPath();
+        ctx.arc(px + CELL_SIZE / 2, py + CELL_SIZE / 2, DOT_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = activeColor;
+        ctx.fill();
+        ctx.strokeStyle = SELECTION_STROKE;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+      }
+      ctx.globalAlpha = 1;
+    }
+  }, [
+    grid, width, height, activeColor, activeTool, shapeFilled, selection, floating, showBasePlates, symmetry,
+    maskEditor, sourceColors, mask,
+  ]);
 
   useEffect(() => {
     draw();
@@ -203,14 +395,35 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
 
   const applyTool = useCallback(
     (row: number, col: number, tool: Tool, color: string) => {
+      // Mirrored cells are dispatched inside the same stroke, so they undo together
+      const cells = symmetryCells(row, col, symmetry, width, height);
       if (tool === 'pen') {
         if (!color) return; // no color selected
-        dispatch({ type: 'PAINT', row, col, color });
+        for (const [r, c] of cells) dispatch({ type: 'PAINT', row: r, col: c, color });
       } else if (tool === 'eraser') {
-        dispatch({ type: 'ERASE', row, col });
+        for (const [r, c] of cells) dispatch({ type: 'ERASE', row: r, col: c });
       }
     },
-    [dispatch]
+    [dispatch, symmetry, width, height]
+  );
+
+  // Which symmetry axis (if any) lies under the pointer
+  const axisNearMouse = useCallback(
+    (e: React.MouseEvent): 'x' | 'y' | null => {
+      const canvas = canvasRef.current;
+      if (!canvas || symmetry.mode === 'off') return null;
+      const rect = canvas.getBoundingClientRect();
+      const x = (e.clientX - rect.left) * (canvas.width / rect.width);
+      const y = (e.clientY - rect.top) * (canvas.height / rect.height);
+      if (symmetry.mode !== 'horizontal' && Math.abs(x - edgeToPixel(symmetry.axisX, PLATE_W, showBasePlates)) <= AXIS_GRAB_PX) {
+        return 'x';
+      }
+      if (symmetry.mode !== 'vertical' && Math.abs(y - edgeToPixel(symmetry.axisY, PLATE_H, showBasePlates)) <= AXIS_GRAB_PX) {
+        return 'y';
+      }
+      return null;
+    },
+    [symmetry, showBasePlates]
   );
 
   const getScrollContainer = useCallback(() => {
@@ -234,13 +447,59 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
         return;
       }
 
+      if (maskEditor) {
+        const cell = cellFromMouse(canvas, e, width, height, showBasePlates);
+        if (!cell) return;
+        isMaskPainting.current = true;
+        maskEditor.onPaint(cell.row, cell.col);
+        return;
+      }
+
+      const axis = axisNearMouse(e);
+      if (axis) {
+        axisDrag.current = axis;
+        return;
+      }
+
       const cell = cellFromMouse(canvas, e, width, height, showBasePlates);
       if (!cell) return;
 
-      if (activeTool === 'select') {
+      if (floating) {
+        // Drag the floating layer from inside its bounds; clicking outside commits it
+        const { clipboard } = floating;
+        const inside =
+          cell.row >= floating.row && cell.row < floating.row + clipboard.height &&
+          cell.col >= floating.col && cell.col < floating.col + clipboard.width;
+        if (inside) {
+          floatDrag.current = cell;
+        } else {
+          dispatch({ type: 'COMMIT_FLOATING' });
+        }
+        return;
+      }
+
+      if (activeTool === 'fill') {
+        if (!activeColor) return; // no color selected
+        // Shift replaces every cell of the clicked color across the whole grid
+        dispatch({ type: 'FILL', row: cell.row, col: cell.col, color: activeColor, global: e.shiftKey });
+      } else if (SHAPE_TOOLS.has(activeTool)) {
+        if (!activeColor) return; // no color selected
+        shapeStart.current = cell;
+        shapeCurrent.current = cell;
+        draw();
+      } else if (activeTool === 'wand') {
+        dispatch({ type: 'SELECT_WAND', row: cell.row, col: cell.col, mode: selectionModeFromEvent(e) });
+      } else if (activeTool === 'lasso') {
+        lassoPoints.current = [cell];
+        draw();
+      } else if (activeTool === 'select' && !e.shiftKey && !e.altKey && selection.cells.has(`${cell.row},${cell.col}`)) {
+        // Dragging a selected cell lifts the selection so it can be moved
+        dispatch({ type: 'LIFT_SELECTION' });
+        floatDrag.current = cell;
+      } else if (activeTool === 'select') {
         selectStart.current = cell;
         selectCurrent.current = cell;
-        if (!e.shiftKey) {
+        if (selectionModeFromEvent(e) === 'replace') {
           dispatch({ type: 'CLEAR_SELECTION' });
         }
       } else {
@@ -249,7 +508,10 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
         applyTool(cell.row, cell.col, activeTool, activeColor);
       }
     },
-    [activeTool, activeColor, width, height, dispatch, applyTool, getScrollContainer, showBasePlates]
+    [
+      activeTool, activeColor, width, height, selection, floating, dispatch, applyTool, axisNearMouse, draw,
+      getScrollContainer, showBasePlates, maskEditor,
+    ]
   );
 
   const handleMouseMove = useCallback(
@@ -265,17 +527,53 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
 
       const canvas = canvasRef.current;
       if (!canvas) return;
+
+      if (axisDrag.current) {
+        const rect = canvas.getBoundingClientRect();
+        if (axisDrag.current === 'x') {
+          const x = (e.clientX - rect.left) * (canvas.width / rect.width);
+          const axisX = Math.max(0, Math.min(width, pixelToEdge(x, PLATE_W, showBasePlates)));
+          if (axisX !== symmetry.axisX) onSymmetryChange({ ...symmetry, axisX });
+        } else {
+          const y = (e.clientY - rect.top) * (canvas.height / rect.height);
+          const axisY = Math.max(0, Math.min(height, pixelToEdge(y, PLATE_H, showBasePlates)));
+          if (axisY !== symmetry.axisY) onSymmetryChange({ ...symmetry, axisY });
+        }
+        return;
+      }
+
       const cell = cellFromMouse(canvas, e, width, height, showBasePlates);
       if (!cell) return;
 
-      if (activeTool === 'select' && selectStart.current) {
+      if (isMaskPainting.current) {
+        maskEditor?.onPaint(cell.row, cell.col);
+      } else if (floatDrag.current) {
+        const dRow = cell.row - floatDrag.current.row;
+        const dCol = cell.col - floatDrag.current.col;
+        if (dRow !== 0 || dCol !== 0) {
+          dispatch({ type: 'MOVE_FLOATING', dRow, dCol });
+          floatDrag.current = cell;
+        }
+      } else if (activeTool === 'select' && selectStart.current) {
         selectCurrent.current = cell;
         draw();
+      } else if (lassoPoints.current) {
+        const last = lassoPoints.current[lassoPoints.current.length - 1];
+        if (last.row !== cell.row || last.col !== cell.col) {
+          lassoPoints.current.push(cell);
+          draw();
+        }
+      } else if (shapeStart.current) {
+        shapeCurrent.current = cell;
+        draw();
       } else if (isPainting.current) {
         applyTool(cell.row, cell.col, activeTool, activeColor);
       }
     },
-    [activeTool, activeColor, width, height, applyTool, draw, getScrollContainer, showBasePlates]
+    [
+      activeTool, activeColor, width, height, dispatch, applyTool, draw, getScrollContainer, showBasePlates,
+      symmetry, onSymmetryChange, maskEditor,
+    ]
   );
 
   const handleMouseUp = useCallback(
@@ -286,11 +584,19 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
         return;
       }
 
+      floatDrag.current = null;
+      axisDrag.current = null;
+      if (isMaskPainting.current) {
+        isMaskPainting.current = false;
+        maskEditor?.onStrokeEnd();
+        return;
+      }
       if (activeTool === 'select' && selectStart.current && selectCurrent.current) {
         const s = selectStart.current;
         const c = selectCurrent.current;
+        const mode = selectionModeFromEvent(e);
         if (s.row === c.row && s.col === c.col) {
-          dispatch({ type: 'SELECT_CELL', row: s.row, col: s.col, additive: e.shiftKey });
+          dispatch({ type: 'SELECT_CELL', row: s.row, col: s.col, mode });
         } else {
           dispatch({
             type: 'SELECT_RECT',
@@ -298,21 +604,47 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
             startCol: s.col,
             endRow: c.row,
             endCol: c.col,
-            additive: e.shiftKey,
+            mode,
           });
         }
         selectStart.current = null;
         selectCurrent.current = null;
       }
+      if (lassoPoints.current) {
+        dispatch({ type: 'SELECT_LASSO', points: lassoPoints.current, mode: selectionModeFromEvent(e) });
+        lassoPoints.current = null;
+      }
+      if (SHAPE_TOOLS.has(activeTool) && shapeStart.current && shapeCurrent.current) {
+        const s = shapeStart.current;
+        const c = shapeCurrent.current;
+        dispatch({
+          type: 'DRAW_SHAPE',
+          shape: activeTool as ShapeKind,
+          startRow: s.row,
+          startCol: s.col,
+          endRow: c.row,
+          endCol: c.col,
+          color: activeColor,
+          filled: shapeFilled,
+        });
+        shapeStart.current = null;
+        shapeCurrent.current = null;
+      }
       if (isPainting.current) {
         isPainting.current = false;
         dispatch({ type: 'STROKE_END' });
       }
     },
-    [activeTool, dispatch]
+    [activeTool, activeColor, shapeFilled, dispatch, maskEditor]
   );
 
   const handleMouseLeave = useCallback(() => {
+    floatDrag.current = null;
+    axisDrag.current = null;
+    if (isMaskPainting.current) {
+      isMaskPainting.current = false;
+      maskEditor?.onStrokeEnd();
+    }
     if (isPanning.current) {
       isPanning.current = false;
       panStart.current = null;
@@ -321,23 +653,34 @@ export default function CanvasEditor({ state, dispatch, zoom, onZoomChange, show
       isPainting.current = false;
       dispatch({ type: 'STROKE_END' });
     }
-    if (selectStart.current) {
+    if (selectStart.current || shapeStart.current || lassoPoints.current) {
       selectStart.current = null;
       selectCurrent.current = null;
+      lassoPoints.current = null;
+      shapeStart.current = null;
+      shapeCurrent.current = null;
       draw();
     }
-  }, [draw, dispatch]);
+  }, [draw, dispatch, maskEditor]);
 
   const dims = canvasDims(width, height, showBasePlates);
+  const activeLayer = getActiveLayer(state);
+  const layerBlocked = !activeLayer || activeLayer.locked || !activeLayer.visible;
 
   const cursorStyle =
     activeTool === 'hand'
       ? (isPanning.current ? 'grabbing' : 'grab')
-      : activeTool === 'pen'
+      : maskEditor
         ? 'crosshair'
-        : activeTool === 'eraser'
-          ? 'pointer'
-          : 'default';
+        : layerBlocked && EDIT_TOOLS.has(activeTool)
+        ? 'not-allowed'
+        : floating
+          ? 'move'
+          : activeTool === 'pen' || activeTool === 'fill' || SHAPE_TOOLS.has(activeTool)
+            ? 'crosshair'
+            : activeTool === 'eraser'
+              ? 'pointer'
+              : 'default';
 
   return (
     <canvas
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { Checkpoint, EditorAction, HistoryEntry } from './types';
+
+interface HistoryPanelProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  checkpoints: Checkpoint[]; // of every tab; only the active tab's are listed
+  tabId: string;
+  dispatch: React.Dispatch<EditorAction>;
+  onOpenSnapshots: () => void;
+}
+
+export default function HistoryPanel({ past, future, checkpoints: allCheckpoints, tabId, dispatch, onOpenSnapshots }: HistoryPanelProps) {
+  const [checkpointName, setCheckpointName] = useState('');
+  const checkpoints = allCheckpoints.filter((c) => c.tabId === tabId);
+
+  // Row i is the state after the i-th entry; row 0 is the oldest state still kept
+  const rows = ['Start', ...past.map((e) => e.label), ...future.map((e) => e.label)];
+  const current = past.length;
+
+  const addCheckpoint = () => {
+    const name = checkpointName.trim() || `Checkpoint ${checkpoints.length + 1}`;
+    dispatch({ type: 'ADD_CHECKPOINT', name, tabId });
+    setCheckpointName('');
+  };
+
+  return (
+    <div className="history-panel">
+      <h3>History</h3>
+      <div className="history-list">
+        {rows.map((label, i) => (
+          <button
+            key={i}
+            className={`history-row ${i === current ? 'active' : ''} ${i > current ? 'undone' : ''}`}
+            onClick={() => dispatch({ type: 'JUMP_HISTORY', index: i })}
+            title={i === current ? 'Current state' : 'Jump to this state'}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="checkpoint-add">
+        <input
+          type="text"
+          value={checkpointName}
+          placeholder={`Checkpoint ${checkpoints.length + 1}`}
+          onChange={(e) => setCheckpointName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') addCheckpoint(); }}
+        />
+        <button onClick={addCheckpoint} title="Pin the current state; checkpoints are never dropped from history">
+          📌 Pin
+        </button>
+        <button onClick={onOpenSnapshots} title="Browse saved snapshots of this tab; they survive a refresh">
+          🕘 Snapshots
+        </button>
+      </div>
+      {checkpoints.length > 0 && (
+        <div className="layer-list">
+          {checkpoints.map((cp) => (
+            <div key={cp.id} className="layer-row">
+              <span className="layer-name" title={cp.name}>📌 {cp.name}</span>
+              <button
+                className="layer-icon"
+                onClick={() => dispatch({ type: 'RESTORE_CHECKPOINT', id: cp.id, tabId })}
+                title="Restore this checkpoint"
+              >
+                ↺
+              </button>
+              <button
+                className="layer-icon"
+                onClick={() => dispatch({ type: 'DELETE_CHECKPOINT', id: cp.id })}
+                title="Delete checkpoint"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
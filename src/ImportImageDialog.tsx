@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { config } from './config';
+import { clampFraming, defaultFraming, framingRect, MAX_FRAME_ZOOM } from './imageFraming';
+import type { FitMode, ImageFraming, Orientation } from './imageFraming';
+
+interface ImportImageDialogProps {
+  image: ImageData;
+  initialFraming: ImageFraming;
+  fullLong: number;  // plate area in dots along its long side
+  fullShort: number;
+  onConfirm: (framing: ImageFraming) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_SIZE = 420; // longest preview side in px
+const [PLATE_W, PLATE_H] = config.basePlates.size;
+
+const ORIENTATIONS: { value: Orientation; label: string }[] = [
+  { value: 'landscape', label: '▭ Landscape' },
+  { value: 'portrait', label: '▯ Portrait' },
+];
+
+const FITS: { value: FitMode; label: string; title: string }[] = [
+  { value: 'fill', label: 'Fill', title: 'Crop the image to cover the whole plate area' },
+  { value: 'letterbox', label: 'Letterbox', title: 'Fit the whole image, padding the rest with black (water)' },
+];
+
+export default function ImportImageDialog({
+  image,
+  initialFraming,
+  fullLong,
+  fullShort,
+  onConfirm,
+  onCancel,
+}: ImportImageDialogProps) {
+  const [framing, setFraming] = useState(initialFraming);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drag = useRef<{ x: number; y: number; centerX: number; centerY: number } | null>(null);
+
+  const landscape = framing.orientation === 'landscape';
+  const gridW = landscape ? fullLong : fullShort;
+  const gridH = landscape ? fullShort : fullLong;
+  const scale = PREVIEW_SIZE / Math.max(gridW, gridH);
+  const canvasW = Math.round(gridW * scale);
+  const canvasH = Math.round(gridH * scale);
+  const rect = framingRect(framing, image.width, image.height, gridW, gridH);
+
+  // The source as a drawable canvas, so the preview can scale it with drawImage
+  const source = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    canvas.getContext('2d')!.putImageData(image, 0, 0);
+    return canvas;
+  }, [image]);
+
+  const update = (patch: Partial<ImageFraming>) => {
+    const next = { ...framing, ...patch };
+    const w = next.orientation === 'landscape' ? fullLong : fullShort;
+    const h = next.orientation === 'landscape' ? fullShort : fullLong;
+    setFraming(clampFraming(next, image.width, image.height, w, h));
+  };
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvasW, canvasH);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(
+      source,
+      (-rect.x / rect.width) * canvasW,
+      (-rect.y / rect.height) * canvasH,
+      canvasW / rect.width,
+      canvasH / rect.height,
+    );
+
+    // Base plate boundaries
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let c = PLATE_W; c < gridW; c += PLATE_W) {
+      ctx.moveTo(Math.round(c * scale) + 0.5, 0);
+      ctx.lineTo(Math.round(c * scale) + 0.5, canvasH);
+    }
+    for (let r = PLATE_H; r < gridH; r += PLATE_H) {
+      ctx.moveTo(0, Math.round(r * scale) + 0.5);
+      ctx.lineTo(canvasW, Math.round(r * scale) + 0.5);
+    }
+    ctx.stroke();
+  }, [source, rect.x, rect.y, rect.width, rect.height, canvasW, canvasH, gridW, gridH, scale]);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    drag.current = { x: e.clientX, y: e.clientY, centerX: framing.centerX, centerY: framing.centerY };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const start = drag.current;
+    if (!start) return;
+    // Dragging moves the image, so the frame center moves the other way
+    update({
+      centerX: start.centerX - ((e.clientX - start.x) / canvasW) * rect.width,
+      centerY: start.centerY - ((e.clientY - start.y) / canvasH) * rect.height,
+    });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const zoom = Math.min(MAX_FRAME_ZOOM, Math.max(1, framing.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    update({ zoom });
+  };
+
+  const locked = framing.fit !== 'stretch';
+
+  return (
+    <div
+      className="dialog-backdrop"
+      onClick={onCancel}
+      onKeyDown={(e) => {
+        // Keep tool shortcuts from firing while the dialog has focus
+        e.stopPropagation();
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <div className="dialog frame-dialog" onClick={(e) => e.stopPropagation()}>
+        <h3>Frame image</h3>
+        <p className="dialog-hint">Drag to position, scroll or use the slider to zoom.</p>
+        <canvas
+          ref={canvasRef}
+          className="frame-preview"
+          width={canvasW}
+          height={canvasH}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={() => { drag.current = null; }}
+          onMouseLeave={() => { drag.current = null; }}
+          onWheel={handleWheel}
+        />
+        <div className="rotate-controls">
+          {ORIENTATIONS.map((o) => (
+            <button
+              key={o.value}
+              className={framing.orientation === o.value ? 'active' : ''}
+              onClick={() => update({ orientation: o.value })}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+        <label className="limit-toggle">
+          <input
+            type="checkbox"
+            checked={locked}
+            onChange={(e) => update({ fit: e.target.checked ? 'fill' : 'stretch' })}
+          />
+          Lock aspect ratio
+        </label>
+        {locked && (
+          <div className="rotate-controls">
+            {FITS.map((f) => (
+              <button
+                key={f.value}
+                className={framing.fit === f.value ? 'active' : ''}
+                onClick={() => update({ fit: f.value })}
+                title={f.title}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        )}
+        <label className="option-row">
+          <span>Zoom</span>
+          <input type="range" min={100} max={MAX_FRAME_ZOOM * 100} value={Math.round(framing.zoom * 100)}
+            onChange={(e) => update({ zoom: parseInt(e.target.value) / 100 })} />
+          <span className="option-value">{Math.round(framing.zoom * 100)}%</span>
+        </label>
+        <div className="dialog-actions">
+          <button onClick={() => setFraming(defaultFraming(image.width, image.height))}>Reset</button>
+          <button onClick={onCancel}>Cancel</button>
+          <button className="primary" onClick={() => onConfirm(framing)}>Convert</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import type { EditorAction, Layer } from './types';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  activeLayerId: string;
+  dispatch: React.Dispatch<EditorAction>;
+}
+
+export default function LayersPanel({ layers, activeLayerId, dispatch }: LayersPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const commitRename = () => {
+    if (editingId && editValue.trim()) {
+      dispatch({ type: 'RENAME_LAYER', id: editingId, name: editValue.trim() });
+    }
+    setEditingId(null);
+  };
+
+  // Listed top-most first, like the stacking order on the canvas
+  const ordered = [...layers].reverse();
+
+  return (
+    <div className="layers-panel">
+      <h3>Layers</h3>
+      <div className="layer-list">
+        {ordered.map((layer, i) => (
+          <div
+            key={layer.id}
+            className={`layer-row ${layer.id === activeLayerId ? 'active' : ''} ${layer.visible ? '' : 'hidden'}`}
+            onClick={() => dispatch({ type: 'SET_ACTIVE_LAYER', id: layer.id })}
+          >
+            <button
+              className="layer-icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                dispatch({ type: 'SET_LAYER_VISIBLE', id: layer.id, visible: !layer.visible });
+              }}
+              title={layer.visible ? 'Hide layer' : 'Show layer'}
+            >
+              {layer.visible ? '👁' : '◌'}
+            </button>
+            <button
+              className="layer-icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                dispatch({ type: 'SET_LAYER_LOCKED', id: layer.id, locked: !layer.locked });
+              }}
+              title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+            >
+              {layer.locked ? '🔒' : '🔓'}
+            </button>
+            {editingId === layer.id ? (
+              <input
+                className="layer-rename-input"
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                autoFocus
+              />
+            ) : (
+              <span
+                className="layer-name"
+                onDoubleClick={(e) => {
+                  e.stopPropagation();
+                  setEditingId(layer.id);
+                  setEditValue(layer.name);
+                }}
+              >
+                {layer.name}
+              </span>
+            )}
+            {layer.kind === 'user' && (
+              <>
+                <button
+                  className="layer-icon"
+                  disabled={i === 0}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    dispatch({ type: 'MOVE_LAYER', id: layer.id, direction: 'up' });
+                  }}
+                  title="Move layer up"
+                >
+                  ▲
+                </button>
+                <button
+                  className="layer-icon"
+                  disabled={i === ordered.length - 2}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    dispatch({ type: 'MOVE_LAYER', id: layer.id, direction: 'down' });
+                  }}
+                  title="Move layer down"
+                >
+                  ▼
+                </button>
+                <button
+                  className="layer-icon"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    dispatch({ type: 'DELETE_LAYER', id: layer.id });
+                  }}
+                  title="Delete layer"
+                >
+                  ×
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="layer-actions">
+        <button onClick={() => dispatch({ type: 'ADD_LAYER' })} title="Add a layer above the active one">
+          + Layer
+        </button>
+        <button
+          onClick={() => dispatch({ type: 'FLATTEN_LAYERS' })}
+          disabled={layers.length === 1}
+          title="Merge visible layers into the base map"
+        >
+          ⤓ Flatten
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { MaskValue } from './classificationMask';
+
+const BRUSHES: { value: MaskValue; label: string; title: string }[] = [
+  { value: 'water', label: '🌊 Water', title: 'Force painted cells to water' },
+  { value: 'land', label: '⛰ Land', title: 'Force painted cells to land' },
+  { value: 'auto', label: '✦ Auto', title: 'Let the water sensitivity decide again' },
+];
+
+interface MaskPanelProps {
+  editing: boolean;
+  onEditingChange: (editing: boolean) => void;
+  brush: MaskValue;
+  onBrushChange: (brush: MaskValue) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  hasMask: boolean;
+  onClear: () => void;
+}
+
+export default function MaskPanel({
+  editing,
+  onEditingChange,
+  brush,
+  onBrushChange,
+  brushSize,
+  onBrushSizeChange,
+  hasMask,
+  onClear,
+}: MaskPanelProps) {
+  return (
+    <div className="toolbar-group">
+      <h3>Water / Land Mask</h3>
+      <div className="tool-buttons">
+        <button
+          className={editing ? 'active' : ''}
+          onClick={() => onEditingChange(!editing)}
+          title="Paint over the source image to override water/land detection"
+        >
+          🖌 {editing ? 'Done editing' : 'Edit mask'}
+        </button>
+      </div>
+      {editing && (
+        <>
+          <div className="rotate-controls">
+            {BRUSHES.map((b) => (
+              <button
+                key={b.value}
+                className={brush === b.value ? 'active' : ''}
+                onClick={() => onBrushChange(b.value)}
+                title={b.title}
+              >
+                {b.label}
+              </button>
+            ))}
+          </div>
+          <label className="option-row">
+            <span>Brush Size</span>
+            <input type="range" min={1} max={9} value={brushSize}
+              onChange={(e) => onBrushSizeChange(parseInt(e.target.value))} />
+            <span className="option-value">{brushSize}</span>
+          </label>
+        </>
+      )}
+      {hasMask && (
+        <div className="tool-buttons">
+          <button onClick={onClear} title="Remove all painted overrides">✕ Clear mask</button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import type { RenderOptions } from './imageToGrid';
+import { REGION_OPTIONS } from './renderRegions';
+import type { RegionOption, RenderRegion } from './renderRegions';
+
+interface RegionsPanelProps {
+  regions: RenderRegion[];
+  renderOptions: RenderOptions; // a new override starts from the global value
+  hasSelection: boolean;
+  onAdd: () => void;
+  onChange: (region: RenderRegion) => void;
+  onReshape: (region: RenderRegion) => void; // replace its cells with the selection
+  onDelete: (id: string) => void;
+  onSelect: (region: RenderRegion) => void;
+}
+
+const labelOf = new Map(REGION_OPTIONS.map((o) => [o.key, o.label]));
+
+export default function RegionsPanel({
+  regions,
+  renderOptions,
+  hasSelection,
+  onAdd,
+  onChange,
+  onReshape,
+  onDelete,
+  onSelect,
+}: RegionsPanelProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const commitRename = (region: RenderRegion) => {
+    if (editValue.trim()) onChange({ ...region, name: editValue.trim() });
+    setEditingId(null);
+  };
+
+  const setOverride = (region: RenderRegion, key: RegionOption, value: number | null) => {
+    const overrides = { ...region.overrides };
+    if (value === null) delete overrides[key];
+    else overrides[key] = value;
+    onChange({ ...region, overrides });
+  };
+
+  return (
+    <div className="toolbar-group">
+      <h3>Render Regions</h3>
+      <div className="layer-list">
+        {regions.map((region) => {
+          const open = region.id === openId;
+          const overridden = Object.keys(region.overrides) as RegionOption[];
+          const available = REGION_OPTIONS.filter((o) => !(o.key in region.overrides));
+          return (
+            <div key={region.id}>
+              <div
+                className={`layer-row ${open ? 'active' : ''}`}
+                onClick={() => setOpenId(open ? null : region.id)}
+              >
+                <span className="layer-icon">{open ? '▾' : '▸'}</span>
+                {editingId === region.id ? (
+                  <input
+                    className="layer-rename-input"
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onBlur={() => commitRename(region)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(region);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    autoFocus
+                  />
+                ) : (
+                  <span
+                    className="layer-name"
+                    onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      setEditingId(region.id);
+                      setEditValue(region.name);
+                    }}
+                  >
+                    {region.name}
+                  </span>
+                )}
+                <button
+                  className="layer-icon"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSelect(region);
+                  }}
+                  title="Select the region's cells"
+                >
+                  ⬚
+                </button>
+                <button
+                  className="layer-icon"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(region.id);
+                  }}
+                  title="Delete region"
+                >
+                  ×
+                </button>
+              </div>
+              {open && (
+                <div className="region-body">
+                  {overridden.map((key) => (
+                    <label key={key} className="option-row">
+                      <span>{labelOf.get(key)}</span>
+                      <input type="range" min={0} max={100} value={region.overrides[key]}
+                        onChange={(e) => setOverride(region, key, parseInt(e.target.value))} />
+                      <span className="option-value">{region.overrides[key]}</span>
+                      <button className="layer-icon" onClick={() => setOverride(region, key, null)} title="Remove override">
+                        ×
+                      </button>
+                    </label>
+                  ))}
+                  {available.length > 0 && (
+                    <label className="option-row">
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          const key = e.target.value as RegionOption;
+                          if (key) setOverride(region, key, renderOptions[key]);
+                        }}
+                      >
+                        <option value="">+ Override an option…</option>
+                        {available.map((o) => (
+                          <option key={o.key} value={o.key}>{o.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  <label className="option-row">
+                    <span>Border Blend</span>
+                    <input type="range" min={0} max={12} value={region.feather}
+                      onChange={(e) => onChange({ ...region, feather: parseInt(e.target.value) })} />
+                    <span className="option-value">{region.feather}</span>
+                  </label>
+                  <div className="layer-actions">
+                    <button onClick={() => onReshape(region)} disabled={!hasSelection}
+                      title="Replace the region's area with the current selection">
+                      Use selection
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="layer-actions">
+        <button onClick={onAdd} disabled={!hasSelection} title="Create a region from the current selection">
+          + Region from selection
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { LEGO_COLORS } from './colors';
+import { deltaE2000, rgbToLab } from './colorDistance';
+import { hexToRgb } from './imageToGrid';
+import type { PaletteSnapshotEntry } from './projectFile';
+import type { Cell } from './types';
+
+interface RemapColorsDialogProps {
+  colors: string[]; // hexes missing from the active palette
+  snapshot: PaletteSnapshotEntry[]; // the file's own palette, for names and counts
+  onConfirm: (mapping: Map<string, Cell>) => void;
+  onCancel: () => void;
+}
+
+const EMPTY = ''; // <select> value for an empty cell
+
+const labOf = (hex: string) => rgbToLab(...hexToRgb(hex));
+const paletteLabs = LEGO_COLORS.map((c) => ({ hex: c.hex, lab: labOf(c.hex) }));
+
+function nearestPaletteColor(hex: string): string {
+  const lab = labOf(hex);
+  let best = paletteLabs[0];
+  for (const c of paletteLabs) {
+    if (deltaE2000(lab, c.lab) < deltaE2000(lab, best.lab)) best = c;
+  }
+  return best.hex;
+}
+
+export default function RemapColorsDialog({ colors, snapshot, onConfirm, onCancel }: RemapColorsDialogProps) {
+  const [targets, setTargets] = useState<Record<string, string>>(
+    () => Object.fromEntries(colors.map((hex) => [hex, nearestPaletteColor(hex)])),
+  );
+  const entryOf = new Map(snapshot.map((c) => [c.hex, c]));
+
+  const confirm = () => {
+    onConfirm(new Map(colors.map((hex) => [hex, targets[hex] === EMPTY ? null : targets[hex]])));
+  };
+
+  return (
+    <div
+      className="dialog-backdrop"
+      onClick={onCancel}
+      onKeyDown={(e) => {
+        // Keep tool shortcuts from firing while the dialog has focus
+        e.stopPropagation();
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <h3>Colors not in your palette</h3>
+        <p className="dialog-hint">
+          This project uses colors your dotmaps.config.json doesn't have. Pick a replacement for each — the closest
+          match is preselected.
+        </p>
+        <div className="replace-list">
+          {colors.map((hex) => {
+            const entry = entryOf.get(hex);
+            return (
+              <div key={hex} className="replace-row">
+                <span className="replace-swatch" style={{ backgroundColor: hex }} />
+                <span className="replace-name" title={hex}>{entry?.name ?? hex}</span>
+                {entry && <span className="replace-count">{entry.used}</span>}
+                <span>→</span>
+                <select value={targets[hex]} onChange={(e) => setTargets({ ...targets, [hex]: e.target.value })}>
+                  <option value={EMPTY}>empty</option>
+                  {LEGO_COLORS.map((c) => (
+                    <option key={c.hex} value={c.hex}>{c.name}</option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+        <div className="dialog-actions">
+          <button onClick={onCancel}>Cancel</button>
+          <button className="primary" onClick={confirm}>Load project</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react';
+import { LEGO_COLORS } from './colors';
+import type { Cell, ColorMapping, EditorAction, Grid, Selection } from './types';
+
+interface ReplaceColorsDialogProps {
+  grid: Grid; // active layer
+  selection: Selection;
+  disabled: boolean; // active layer is locked or hidden
+  dispatch: React.Dispatch<EditorAction>;
+  onClose: () => void;
+}
+
+const EMPTY = ''; // <select> value for an empty cell
+const KEEP = 'keep';
+
+const nameByHex = new Map(LEGO_COLORS.map((c) => [c.hex, c.name]));
+
+const toValue = (cell: Cell) => cell ?? EMPTY;
+const toCell = (value: string): Cell => (value === EMPTY ? null : value);
+
+export default function ReplaceColorsDialog({ grid, selection, disabled, dispatch, onClose }: ReplaceColorsDialogProps) {
+  const hasSelection = selection.cells.size > 0;
+  const [selectionOnly, setSelectionOnly] = useState(hasSelection);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  // Every color in scope with its dot count, most used first
+  const counts = useMemo(() => {
+    const map = new Map<Cell, number>();
+    grid.forEach((row, r) => row.forEach((cell, c) => {
+      if (selectionOnly && !selection.cells.has(`${r},${c}`)) return;
+      map.set(cell, (map.get(cell) ?? 0) + 1);
+    }));
+    return [...map.entries()].sort((a, b) => b[1] - a[1]);
+  }, [grid, selection, selectionOnly]);
+
+  const mapping: ColorMapping[] = counts
+    .map(([from]) => ({ from, target: targets[toValue(from)] ?? KEEP }))
+    .filter(({ from, target }) => target !== KEEP && toCell(target) !== from)
+    .map(({ from, target }) => ({ from, to: toCell(target) }));
+
+  const apply = () => {
+    dispatch({ type: 'REPLACE_COLORS', mapping, selectionOnly });
+    onClose();
+  };
+
+  return (
+    <div
+      className="dialog-backdrop"
+      onClick={onClose}
+      onKeyDown={(e) => {
+        // Keep tool shortcuts from firing while the dialog has focus
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="dialog" onClick={(e) => e.stopPropagation()}>
+        <h3>Replace colors</h3>
+        <p className="dialog-hint">All replacements apply at once — map A → B and B → A to swap two colors.</p>
+        {hasSelection && (
+          <label className="limit-toggle">
+            <input type="checkbox" checked={selectionOnly} onChange={(e) => setSelectionOnly(e.target.checked)} />
+            Only in selection ({selection.cells.size})
+          </label>
+        )}
+        <div className="replace-list">
+          {counts.map(([cell, count]) => {
+            const key = toValue(cell);
+            return (
+              <div key={key} className="replace-row">
+                <span
+                  className={`replace-swatch ${cell === null ? 'empty' : ''}`}
+                  style={cell ? { backgroundColor: cell } : undefined}
+                />
+                <span className="replace-name">{cell === null ? 'empty' : nameByHex.get(cell) ?? cell}</span>
+                <span className="replace-count">{count}</span>
+                <span>→</span>
+                <select
+                  value={targets[key] ?? KEEP}
+                  onChange={(e) => setTargets({ ...targets, [key]: e.target.value })}
+                >
+                  <option value={KEEP}>keep</option>
+                  <option value={EMPTY}>empty</option>
+                  {LEGO_COLORS.map((c) => (
+                    <option key={c.hex} value={c.hex}>{c.name}</option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+        <div className="dialog-actions">
+          <button onClick={onClose}>Cancel</button>
+          <button
+            className="primary"
+            onClick={apply}
+            disabled={disabled || mapping.length === 0}
+            title={disabled ? 'The active layer is locked or hidden' : undefined}
+          >
+            Replace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { takeSnapshot } from './snapshots';
+import { deleteSnapshots, loadSnapshots } from './storage';
+import type { FileData, Snapshot } from './storage';
+
+interface SnapshotBrowserProps {
+  tabId: string;
+  current: FileData; // what "Take snapshot" captures
+  onRestore: (snapshot: Snapshot) => void;
+  onFork: (snapshot: Snapshot) => void; // open as a new tab
+  onClose: () => void;
+}
+
+interface Entry {
+  snapshot: Snapshot;
+  url: string; // object URL of the thumbnail
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function SnapshotBrowser({ tabId, current, onRestore, onFork, onClose }: SnapshotBrowserProps) {
+  const [entries, setEntries] = useState<Entry[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let urls: string[] = [];
+    loadSnapshots(tabId).then((snapshots) => {
+      if (cancelled) return;
+      const next = snapshots.map((snapshot) => ({ snapshot, url: URL.createObjectURL(snapshot.thumbnail) }));
+      urls = next.map((e) => e.url);
+      setEntries(next);
+    });
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [tabId, reloadKey]);
+
+  const selected = entries?.find((e) => e.snapshot.id === selectedId) ?? entries?.[0] ?? null;
+
+  const take = async () => {
+    setBusy(true);
+    try {
+      const snapshot = await takeSnapshot(tabId, current, 'manual');
+      if (snapshot) setSelectedId(snapshot.id);
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      console.error('Snapshot failed:', err);
+      alert('Failed to take snapshot.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (snapshot: Snapshot) => {
+    await deleteSnapshots([snapshot.id]);
+    setSelectedId(null);
+    setReloadKey((k) => k + 1);
+  };
+
+  return (
+    <div
+      className="dialog-backdrop"
+      onClick={onClose}
+      onKeyDown={(e) => {
+        // Keep tool shortcuts from firing while the dialog has focus
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="dialog snapshot-dialog" onClick={(e) => e.stopPropagation()}>
+        <h3>Snapshots</h3>
+        <p className="dialog-hint">
+          Saved automatically every few minutes while you edit, and whenever you take one. They survive a refresh.
+        </p>
+        <div className="snapshot-browser">
+          <div className="snapshot-list">
+            {entries?.length === 0 && <p className="dialog-hint">No snapshots of this tab yet.</p>}
+            {entries?.map(({ snapshot, url }) => (
+              <button
+                key={snapshot.id}
+                className={`snapshot-row ${snapshot.id === selected?.snapshot.id ? 'active' : ''}`}
+                onClick={() => setSelectedId(snapshot.id)}
+              >
+                <img src={url} alt="" />
+                <span className="snapshot-info">
+                  <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+                  <span className="option-hint">
+                    {snapshot.kind === 'manual' ? '📸 manual' : 'auto'} · {snapshot.data.width}×{snapshot.data.height} · {formatSize(snapshot.size)}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+          {selected && (
+            <div className="snapshot-preview">
+              <img src={selected.url} alt="Snapshot preview" />
+              <div className="dialog-actions">
+                <button onClick={() => remove(selected.snapshot)}>Delete</button>
+                <button onClick={() => onFork(selected.snapshot)} title="Open this snapshot in a new tab">
+                  Open as new tab
+                </button>
+                <button
+                  className="primary"
+                  onClick={() => onRestore(selected.snapshot)}
+                  title="Replace the tab's grid with this snapshot (can be undone)"
+                >
+                  Restore
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="dialog-actions">
+          <button onClick={take} disabled={busy}>📸 Take snapshot</button>
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
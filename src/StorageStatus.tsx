@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { getLastStorageError, getStorageEstimate, onStorageError, onStorageWrite } from './storage';
+import type { StorageEstimate } from './storage';
+
+// Re-estimate at most this often while writes keep coming in
+const ESTIMATE_DELAY = 1000;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+export default function StorageStatus() {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [error, setError] = useState<string | null>(getLastStorageError);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const refresh = () => {
+      getStorageEstimate().then(setEstimate, () => setEstimate(null));
+    };
+    const scheduleRefresh = () => {
+      if (timer === undefined) {
+        timer = setTimeout(() => {
+          timer = undefined;
+          refresh();
+        }, ESTIMATE_DELAY);
+      }
+    };
+    refresh();
+    const offWrite = onStorageWrite(scheduleRefresh);
+    const offError = onStorageError((message) => {
+      setError(message);
+      scheduleRefresh();
+    });
+    return () => {
+      offWrite();
+      offError();
+      clearTimeout(timer);
+    };
+  }, []);
+
+  const nearlyFull = estimate !== null && estimate.quota > 0 && estimate.usage / estimate.quota > 0.9;
+
+  return (
+    <>
+      {estimate && (
+        <span
+          className={`storage-usage ${nearlyFull ? 'full' : ''}`}
+          title="Browser storage used by Dotmaps, of what this browser makes available"
+        >
+          💾 {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}
+        </span>
+      )}
+      {error && (
+        <div className="storage-error" role="alert">
+          <span>⚠ {error}</span>
+          <button onClick={() => setError(null)} title="Dismiss">×</button>
+        </div>
+      )}
+    </>
+  );
+}
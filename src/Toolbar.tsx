@@ -1,17 +1,41 @@
-import { useRef } from 'react';
+import { useRef, useState } from 'react';
 import { config } from './config';
-import type { Tool, EditorAction, Selection } from './types';
-import type { RenderOptions } from './imageToGrid';
+import { LEGO_COLORS } from './colors';
+import type { Tool, EditorAction, Selection, FloatingLayer, WandOptions } from './types';
+import { CONVERSION_MODES, LAND_COLORINGS, LAND_DITHERS, LIMIT_SOLVERS } from './imageToGrid';
+import type { ConversionMode, LandColoring, LandDither, LimitSolver, RenderOptions } from './imageToGrid';
+import { COLOR_METRICS } from './colorDistance';
+import type { ColorMetric } from './colorDistance';
+import type { ProjectEncoding } from './projectFile';
+import { centeredSymmetry } from './symmetry';
+import type { SymmetryMode, SymmetrySettings } from './symmetry';
+
+const MAX_ELEVATION_BANDS = 6;
+
+const SYMMETRY_MODES: { mode: SymmetryMode; label: string; title: string }[] = [
+  { mode: 'off', label: 'Off', title: 'No symmetry' },
+  { mode: 'vertical', label: '┃', title: 'Mirror across a vertical axis' },
+  { mode: 'horizontal', label: '━', title: 'Mirror across a horizontal axis' },
+  { mode: 'both', label: '╋', title: 'Mirror across both axes' },
+  { mode: 'rotational', label: '⟳', title: '4-way rotational symmetry' },
+];
 
 interface ToolbarProps {
   activeTool: Tool;
   activeColor: string;
+  shapeFilled: boolean;
+  wandOptions: WandOptions;
   selection: Selection;
+  floating: FloatingLayer | null;
+  hasClipboard: boolean;
+  onCopy: () => void;
+  onCut: () => void;
+  onPaste: () => void;
   width: number;
   height: number;
   dispatch: React.Dispatch<EditorAction>;
   onExport: () => void;
-  onExportJSON: () => void;
+  onExportJSON: (encoding: ProjectEncoding, embedSource: boolean) => void;
   onImportJSON: (file: File) => void;
   zoom: number;
   onZoomIn: () => void;
@@ -22,7 +46,13 @@ interface ToolbarProps {
   hasImportedImage: boolean;
   resolution: number;
   onResolutionChange: (maxDim: number) => void;
+  onFrameImage: () => void;
+  hasHeightmap: boolean;
+  onHeightmapUpload: (file: File) => void;
+  onHeightmapRemove: () => void;
   onRotate: (direction: 'cw' | 'ccw') => void;
+  onFlip: (axis: 'horizontal' | 'vertical') => void;
+  onReplaceColors: () => void;
   canUndo: boolean;
   canRedo: boolean;
   onUndo: () => void;
@@ -31,12 +61,21 @@ interface ToolbarProps {
   onRenderOptionsChange: (opts: RenderOptions) => void;
   showBasePlates: boolean;
   onToggleBasePlates: (show: boolean) => void;
+  symmetry: SymmetrySettings;
+  onSymmetryChange: (symmetry: SymmetrySettings) => void;
 }
 
 export default function Toolbar({
   activeTool,
   activeColor,
+  shapeFilled,
+  wandOptions,
   selection,
+  floating,
+  hasClipboard,
+  onCopy,
+  onCut,
+  onPaste,
   width,
   height,
   dispatch,
@@ -52,7 +91,13 @@ export default function Toolbar({
   hasImportedImage,
   resolution,
   onResolutionChange,
+  onFrameImage,
+  hasHeightmap,
+  onHeightmapUpload,
+  onHeightmapRemove,
   onRotate,
+  onFlip,
+  onReplaceColors,
   canUndo,
   canRedo,
   onUndo,
@@ -61,10 +106,15 @@ export default function Toolbar({
   onRenderOptionsChange,
   showBasePlates,
   onToggleBasePlates,
+  symmetry,
+  onSymmetryChange,
 }: ToolbarProps) {
   const hasSelection = selection.cells.size > 0;
+  const isMap = renderOptions.conversionMode === 'map';
   const fileInputRef = useRef<HTMLInputElement>(null);
   const jsonInputRef = useRef<HTMLInputElement>(null);
+  const heightmapInputRef = useRef<HTMLInputElement>(null);
+  const [embedSource, setEmbedSource] = useState(true);
 
   return (
     <div className="toolbar">
@@ -92,14 +142,106 @@ export default function Toolbar({
           >
             🧹 Eraser
           </button>
+          <button
+            className={activeTool === 'fill' ? 'active' : ''}
+            onClick={() => dispatch({ type: 'SET_TOOL', tool: 'fill' })}
+            title="Fill (F) — Shift+click to replace color everywhere"
+          >
+            🪣 Fill
+          </button>
+          <button
+            className={activeTool === 'line' ? 'active' : ''}
+            onClick={() => dispatch({ type: 'SET_TOOL', tool: 'line' })}
+            title="Line (L)"
+          >
+            ╱ Line
+          </button>
+          <button
+            className={activeTool === 'rect' ? 'active' : ''}
+            onClick={() => dispatch({ type: 'SET_TOOL', tool: 'rect' })}
+            title="Rectangle (R)"
+          >
+            ▭ Rectangle
+          </button>
+          <button
+            className={activeTool === 'ellipse' ? 'active' : ''}
+            onClick={() => dispatch({ type: 'SET_TOOL', tool: 'ellipse' })}
+            title="Ellipse (O)"
+          >
+            ◯ Ellipse
+          </button>
           <button
             className={activeTool === 'select' ? 'active' : ''}
             onClick={() => dispatch({ type: 'SET_TOOL', tool: 'select' })}
-            title="Select (S)"
+            title="Select (S) — Shift adds, Alt subtracts, Shift+Alt intersects"
           >
             ⬚ Select
           </button>
+          <button
+            className={activeTool === 'wand' ? 'active' : ''}
+            onClick={() => dispatch({ type: 'SET_TOOL', tool: 'wand' })}
+            title="Magic wand (W) — Shift adds, Alt subtracts, Shift+Alt intersects"
+          >
+            🪄 Wand
+          </button>
+          <button
+            className={activeTool === 'lasso' ? 'active' : ''}
+            onClick={() => dispatch({ type: 'SET_TOOL', tool: 'lasso' })}
+            title="Lasso (A) — Shift adds, Alt subtracts, Shift+Alt intersects"
+          >
+            ➰ Lasso
+          </button>
         </div>
+        {(activeTool === 'rect' || activeTool === 'ellipse') && (
+          <label className="option-row option-toggle">
+            <input type="checkbox" checked={shapeFilled}
+              onChange={(e) => dispatch({ type: 'SET_SHAPE_FILLED', filled: e.target.checked })} />
+            <span>Filled shapes</span>
+          </label>
+        )}
+        {activeTool === 'wand' && (
+          <>
+            <label className="option-row option-toggle">
+              <input type="checkbox" checked={wandOptions.contiguous}
+                onChange={(e) => dispatch({ type: 'SET_WAND_OPTIONS', options: { contiguous: e.target.checked } })} />
+              <span>Contiguous</span>
+            </label>
+            <label className="option-row option-toggle">
+              <input type="checkbox" checked={wandOptions.byGroup}
+                onChange={(e) => dispatch({ type: 'SET_WAND_OPTIONS', options: { byGroup: e.target.checked } })} />
+              <span>Match water/land group</span>
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="toolbar-group">
+        <h3>Symmetry</h3>
+        <div className="symmetry-controls">
+          {SYMMETRY_MODES.map(({ mode, label, title }) => (
+            <button
+              key={mode}
+              className={symmetry.mode === mode ? 'active' : ''}
+              onClick={() => onSymmetryChange(
+                // Keep a moved axis when switching between modes; center it when turning on
+                symmetry.mode === 'off' ? centeredSymmetry(mode, width, height) : { ...symmetry, mode },
+              )}
+              title={title}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {symmetry.mode !== 'off' && (
+          <div className="tool-buttons symmetry-reset">
+            <button
+              onClick={() => onSymmetryChange(centeredSymmetry(symmetry.mode, width, height))}
+              title="Drag an axis on the canvas to move it"
+            >
+              ⌖ Center axes
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="toolbar-group">
@@ -120,12 +262,34 @@ export default function Toolbar({
             >
               🎨 Recolor
             </button>
+            <button onClick={onCopy} title="Copy selected dots (⌘C)">📄 Copy</button>
+            <button onClick={onCut} title="Cut selected dots (⌘X)">✂️ Cut</button>
+            <button
+              onClick={() => dispatch({ type: 'LIFT_SELECTION' })}
+              title="Move selected dots (drag or arrow keys)"
+            >
+              ✥ Move
+            </button>
             <button
               onClick={() => dispatch({ type: 'DELETE_SELECTION' })}
               title="Delete selected dots"
             >
               🗑️ Delete
             </button>
+            <button
+              onClick={() => dispatch({ type: 'INVERT_SELECTION' })}
+              title="Invert selection (⌘⇧I)"
+            >
+              ⇄ Invert
+            </button>
+          </div>
+          <div className="rotate-controls">
+            <button onClick={() => dispatch({ type: 'TRANSFORM_SELECTION', transform: 'ccw' })} title="Rotate selection left 90°">↺</button>
+            <button onClick={() => dispatch({ type: 'TRANSFORM_SELECTION', transform: 'cw' })} title="Rotate selection right 90°">↻</button>
+            <button onClick={() => dispatch({ type: 'TRANSFORM_SELECTION', transform: 'flip-h' })} title="Flip selection horizontally">⇋</button>
+            <button onClick={() => dispatch({ type: 'TRANSFORM_SELECTION', transform: 'flip-v' })} title="Flip selection vertically">⇵</button>
+          </div>
+          <div className="tool-buttons">
             <button
               onClick={() => dispatch({ type: 'CLEAR_SELECTION' })}
               title="Clear selection"
@@ -136,6 +300,28 @@ export default function Toolbar({
         </div>
       )}
 
+      {floating && (
+        <div className="toolbar-group">
+          <h3>Floating ({floating.clipboard.cells.length})</h3>
+          <div className="tool-buttons">
+            <button onClick={() => dispatch({ type: 'COMMIT_FLOATING' })} title="Place dots (Enter)">
+              ✓ Place
+            </button>
+            <button onClick={() => dispatch({ type: 'CANCEL_FLOATING' })} title="Cancel (Esc)">
+              ✕ Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {hasClipboard && !floating && (
+        <div className="toolbar-group">
+          <div className="tool-buttons">
+            <button onClick={onPaste} title="Paste (⌘V)">📋 Paste</button>
+          </div>
+        </div>
+      )}
+
       <div className="toolbar-group">
         <h3>Grid Size</h3>
         <div className="grid-size-controls">
@@ -169,11 +355,24 @@ export default function Toolbar({
       </div>
 
       <div className="toolbar-group">
-        <h3>Rotate</h3>
+        <h3>Rotate &amp; Flip</h3>
         <div className="rotate-controls">
           <button onClick={() => onRotate('ccw')} title="Rotate left 90°">↺ Left</button>
           <button onClick={() => onRotate('cw')} title="Rotate right 90°">↻ Right</button>
         </div>
+        <div className="rotate-controls">
+          <button onClick={() => onFlip('horizontal')} title="Flip horizontally">⇋ Flip H</button>
+          <button onClick={() => onFlip('vertical')} title="Flip vertically">⇵ Flip V</button>
+        </div>
+      </div>
+
+      <div className="toolbar-group">
+        <h3>Colors</h3>
+        <div className="tool-buttons">
+          <button onClick={onReplaceColors} title="Replace or swap colors across the map or selection">
+            ⇄ Replace colors…
+          </button>
+        </div>
       </div>
 
       <div className="toolbar-group">
@@ -192,7 +391,15 @@ export default function Toolbar({
         <div className="tool-buttons">
           <button onClick={onExport} title="Export as PNG">📷 Export PNG</button>
           <button onClick={onExportList} title="Export parts list as Markdown">📋 Export List</button>
-          <button onClick={onExportJSON} title="Export project as JSON">💾 Export Project</button>
+          <button onClick={() => onExportJSON('packed', embedSource && hasImportedImage)} title="Export project as compact JSON">
+            💾 Export Project
+          </button>
+          <button
+            onClick={() => onExportJSON('plain', embedSource && hasImportedImage)}
+            title="Export project as JSON with one readable hex color per cell"
+          >
+            📄 Export Readable
+          </button>
           <button onClick={() => fileInputRef.current?.click()} title="Import image as dots">🖼️ Import Image</button>
           <button onClick={() => jsonInputRef.current?.click()} title="Import .dotmap.json project">📂 Import Project</button>
           <input
@@ -218,6 +425,12 @@ export default function Toolbar({
             }}
           />
         </div>
+        {hasImportedImage && (
+          <label className="limit-toggle" title="Include the source image, framing, mask and regions so the project re-renders anywhere">
+            <input type="checkbox" checked={embedSource} onChange={(e) => setEmbedSource(e.target.checked)} />
+            Embed source image in project
+          </label>
+        )}
       </div>
 
       {hasImportedImage && (
@@ -236,6 +449,11 @@ export default function Toolbar({
             />
             <span className="resolution-label">{resolution}px</span>
           </div>
+          <div className="tool-buttons">
+            <button onClick={onFrameImage} title="Crop, zoom and position the image in the plate area">
+              ✂ Crop &amp; Frame
+            </button>
+          </div>
         </div>
       )}
 
@@ -244,33 +462,191 @@ export default function Toolbar({
           <summary><h3>Advanced Options</h3></summary>
           <div className="advanced-options-body">
             <label className="option-row">
-              <span>Water Depth</span>
-              <input type="range" min={0} max={100} value={renderOptions.waterDepth}
-                onChange={(e) => onRenderOptionsChange({ ...renderOptions, waterDepth: parseInt(e.target.value) })} />
-              <span className="option-value">{renderOptions.waterDepth}</span>
-            </label>
-            <label className="option-row option-toggle">
-              <input type="checkbox" checked={renderOptions.includeBlack}
-                onChange={(e) => onRenderOptionsChange({ ...renderOptions, includeBlack: e.target.checked })} />
-              <span>Include Black in Water</span>
-            </label>
-            <label className="option-row">
-              <span>Color Vibrancy</span>
-              <input type="range" min={0} max={100} value={renderOptions.colorVibrancy}
-                onChange={(e) => onRenderOptionsChange({ ...renderOptions, colorVibrancy: parseInt(e.target.value) })} />
-              <span className="option-value">{renderOptions.colorVibrancy}</span>
-            </label>
-            <label className="option-row">
-              <span>Coastline Width</span>
-              <input type="range" min={0} max={100} value={renderOptions.coastlineWidth}
-                onChange={(e) => onRenderOptionsChange({ ...renderOptions, coastlineWidth: parseInt(e.target.value) })} />
-              <span className="option-value">{renderOptions.coastlineWidth}</span>
+              <span>Conversion Mode</span>
+              <select value={renderOptions.conversionMode}
+                onChange={(e) => onRenderOptionsChange({ ...renderOptions, conversionMode: e.target.value as ConversionMode })}>
+                {CONVERSION_MODES.map(({ mode, label }) => (
+                  <option key={mode} value={mode}>{label}</option>
+                ))}
+              </select>
             </label>
+            {isMap && (
+              <>
+                <label className="option-row">
+                  <span>Water Depth</span>
+                  <input type="range" min={0} max={100} value={renderOptions.waterDepth}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, waterDepth: parseInt(e.target.value) })} />
+                  <span className="option-value">{renderOptions.waterDepth}</span>
+                </label>
+                <label className="option-row option-toggle">
+                  <input type="checkbox" checked={renderOptions.includeBlack}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, includeBlack: e.target.checked })} />
+                  <span>Include Black in Water</span>
+                </label>
+                <label className="option-row">
+                  <span>Color Vibrancy</span>
+                  <input type="range" min={0} max={100} value={renderOptions.colorVibrancy}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, colorVibrancy: parseInt(e.target.value) })} />
+                  <span className="option-value">{renderOptions.colorVibrancy}</span>
+                </label>
+                <label className="option-row">
+                  <span>Land Coloring</span>
+                  <select value={renderOptions.landColoring}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, landColoring: e.target.value as LandColoring })}>
+                    {LAND_COLORINGS.map(({ coloring, label }) => (
+                      <option key={coloring} value={coloring}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                {renderOptions.landColoring === 'elevation' && (
+                  <div className="option-row">
+                    <span>Elevation Bands (low → high)</span>
+                    {renderOptions.elevationBands.map((hex, i) => (
+                      <div key={i} className="band-row">
+                        <select value={hex}
+                          onChange={(e) => onRenderOptionsChange({
+                            ...renderOptions,
+                            elevationBands: renderOptions.elevationBands.map((b, j) => (j === i ? e.target.value : b)),
+                          })}>
+                          {LEGO_COLORS.map((c) => (
+                            <option key={c.hex} value={c.hex}>{c.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => onRenderOptionsChange({
+                            ...renderOptions,
+                            elevationBands: renderOptions.elevationBands.filter((_, j) => j !== i),
+                          })}
+                          disabled={renderOptions.elevationBands.length <= 2}
+                          title="Remove band"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <div className="tool-buttons">
+                      {renderOptions.elevationBands.length < MAX_ELEVATION_BANDS && (
+                        <button onClick={() => onRenderOptionsChange({
+                          ...renderOptions,
+                          elevationBands: [...renderOptions.elevationBands, renderOptions.elevationBands.at(-1)!],
+                        })}>
+                          + Add band
+                        </button>
+                      )}
+                      <button onClick={() => heightmapInputRef.current?.click()}
+                        title="Grayscale image covering the same area — brighter is higher">
+                        ⛰ {hasHeightmap ? 'Replace heightmap' : 'Attach heightmap'}
+                      </button>
+                      {hasHeightmap && <button onClick={onHeightmapRemove}>✕ Remove heightmap</button>}
+                      <input
+                        ref={heightmapInputRef}
+                        type="file"
+                        accept="image/*"
+                        style={{ display: 'none' }}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) onHeightmapUpload(file);
+                          e.target.value = '';
+                        }}
+                      />
+                    </div>
+                    {!hasHeightmap && (
+                      <span className="option-hint">Attach a heightmap to color land by elevation.</span>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+            {renderOptions.conversionMode !== 'pixel-art' && (
+              <>
+                <label className="option-row">
+                  <span>Color Matching</span>
+                  <select value={renderOptions.colorMetric}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, colorMetric: e.target.value as ColorMetric })}>
+                    {COLOR_METRICS.map(({ metric, label }) => (
+                      <option key={metric} value={metric}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="option-row">
+                  <span>{isMap ? 'Land Dithering' : 'Dithering'}</span>
+                  <select value={renderOptions.landDither}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, landDither: e.target.value as LandDither })}>
+                    {LAND_DITHERS.map(({ dither, label }) => (
+                      <option key={dither} value={dither}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                {renderOptions.landDither !== 'none' && (
+                  <label className="option-row">
+                    <span>Dither Strength</span>
+                    <input type="range" min={0} max={100} value={renderOptions.ditherStrength}
+                      onChange={(e) => onRenderOptionsChange({ ...renderOptions, ditherStrength: parseInt(e.target.value) })} />
+                    <span className="option-value">{renderOptions.ditherStrength}</span>
+                  </label>
+                )}
+              </>
+            )}
+            {isMap && (
+              <>
+                <label className="option-row">
+                  <span>Coastline Width</span>
+                  <input type="range" min={0} max={100} value={renderOptions.coastlineWidth}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, coastlineWidth: parseInt(e.target.value) })} />
+                  <span className="option-value">{renderOptions.coastlineWidth}</span>
+                </label>
+                <label className="option-row">
+                  <span>Water Sensitivity</span>
+                  <input type="range" min={0} max={100} value={renderOptions.waterSensitivity}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, waterSensitivity: parseInt(e.target.value) })} />
+                  <span className="option-value">{renderOptions.waterSensitivity}</span>
+                </label>
+              </>
+            )}
+            {renderOptions.conversionMode !== 'pixel-art' && (
+              <>
+                <label className="option-row option-toggle">
+                  <input type="checkbox" checked={renderOptions.preserveLines}
+                    onChange={(e) => onRenderOptionsChange({ ...renderOptions, preserveLines: e.target.checked })} />
+                  <span>Preserve Lines (borders, rivers)</span>
+                </label>
+                {renderOptions.preserveLines && (
+                  <>
+                    <label className="option-row">
+                      <span>Line Color</span>
+                      <select value={renderOptions.lineColor ?? ''}
+                        onChange={(e) => onRenderOptionsChange({ ...renderOptions, lineColor: e.target.value || null })}>
+                        <option value="">black (empty)</option>
+                        {LEGO_COLORS.map((c) => (
+                          <option key={c.hex} value={c.hex}>{c.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="option-row">
+                      <span>Max Line Width</span>
+                      <input type="range" min={1} max={10} value={renderOptions.lineWidth}
+                        onChange={(e) => onRenderOptionsChange({ ...renderOptions, lineWidth: parseInt(e.target.value) })} />
+                      <span className="option-value">{renderOptions.lineWidth}px</span>
+                    </label>
+                    {isMap && (
+                      <label className="option-row option-toggle">
+                        <input type="checkbox" checked={renderOptions.linesOnLandOnly}
+                          onChange={(e) => onRenderOptionsChange({ ...renderOptions, linesOnLandOnly: e.target.checked })} />
+                        <span>Lines on Land Only</span>
+                      </label>
+                    )}
+                  </>
+                )}
+              </>
+            )}
             <label className="option-row">
-              <span>Water Sensitivity</span>
-              <input type="range" min={0} max={100} value={renderOptions.waterSensitivity}
-                onChange={(e) => onRenderOptionsChange({ ...renderOptions, waterSensitivity: parseInt(e.target.value) })} />
-              <span className="option-value">{renderOptions.waterSensitivity}</span>
+              <span>Limit Solver</span>
+              <select value={renderOptions.limitSolver}
+                onChange={(e) => onRenderOptionsChange({ ...renderOptions, limitSolver: e.target.value as LimitSolver })}>
+                {LIMIT_SOLVERS.map(({ solver, label }) => (
+                  <option key={solver} value={solver}>{label}</option>
+                ))}
+              </select>
             </label>
           </div>
         </details>
@@ -0,0 +1,55 @@
+// User overrides for the water/land classification of an imported map.
+// Stored at the grid size it was painted on and sampled by normalized position,
+// so it keeps lining up when the image is re-rendered at another detail level.
+
+export type MaskValue = 'auto' | 'water' | 'land';
+
+export interface ClassificationMask {
+  width: number;
+  height: number;
+  data: string; // one char per cell, row-major: '.' auto, 'w' water, 'l' land
+}
+
+const CHAR: Record<MaskValue, string> = { auto: '.', water: 'w', land: 'l' };
+
+export function createMask(width: number, height: number): ClassificationMask {
+  return { width, height, data: CHAR.auto.repeat(width * height) };
+}
+
+export function isMaskEmpty(mask: ClassificationMask | null): boolean {
+  return !mask || !/[wl]/.test(mask.data);
+}
+
+// Mask cell under the center of grid cell (row, col) of a gridW × gridH grid
+function maskIndex(mask: ClassificationMask, row: number, col: number, gridW: number, gridH: number): number {
+  const mr = Math.min(mask.height - 1, Math.floor(((row + 0.5) * mask.height) / gridH));
+  const mc = Math.min(mask.width - 1, Math.floor(((col + 0.5) * mask.width) / gridW));
+  return mr * mask.width + mc;
+}
+
+export function maskValueAt(mask: ClassificationMask, row: number, col: number, gridW: number, gridH: number): MaskValue {
+  const ch = mask.data[maskIndex(mask, row, col, gridW, gridH)];
+  return ch === 'w' ? 'water' : ch === 'l' ? 'land' : 'auto';
+}
+
+/** Paint a square brush of `size` cells centered on (row, col). */
+export function paintMask(
+  mask: ClassificationMask,
+  row: number,
+  col: number,
+  gridW: number,
+  gridH: number,
+  size: number,
+  value: MaskValue,
+): ClassificationMask {
+  const chars = mask.data.split('');
+  const half = Math.floor((size - 1) / 2);
+  for (let r = row - half; r < row - half + size; r++) {
+    for (let c = col - half; c < col - half + size; c++) {
+      if (r < 0 || r >= gridH || c < 0 || c >= gridW) continue;
+      chars[maskIndex(mask, r, c, gridW, gridH)] = CHAR[value];
+    }
+  }
+  const data = chars.join('');
+  return data === mask.data ? mask : { ...mask, data };
+}
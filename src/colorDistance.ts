@@ -0,0 +1,93 @@
+// Perceptual color distances in CIELAB (D65 white point, sRGB input)
+
+export type ColorMetric = 'hsl' | 'de76' | 'de2000';
+
+export const COLOR_METRICS: { metric: ColorMetric; label: string }[] = [
+  { metric: 'hsl', label: 'HSL heuristic' },
+  { metric: 'de76', label: 'CIELAB ΔE76' },
+  { metric: 'de2000', label: 'CIELAB ΔE2000' },
+];
+
+export type Lab = [number, number, number];
+
+function srgbToLinear(v: number): number {
+  const c = v / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+export function rgbToLab(r: number, g: number, b: number): Lab {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b);
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750;
+  const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / 1.08883;
+  const fx = labF(x), fy = labF(y), fz = labF(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function deltaE76(a: Lab, b: Lab): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+const DEG = Math.PI / 180;
+
+// CIEDE2000 with kL = kC = kH = 1 (Sharma, Wu & Dalal 2005)
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+
+  const C1 = Math.hypot(a1, b1), C2 = Math.hypot(a2, b2);
+  const Cbar7 = ((C1 + C2) / 2) ** 7;
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + 25 ** 7)));
+  const a1p = (1 + G) * a1, a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1), C2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / DEG;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(b1, a1p), h2p = hue(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * DEG);
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbarp /= 2;
+    else hbarp = h1p + h2p < 360 ? (hbarp + 360) / 2 : (hbarp - 360) / 2;
+  }
+
+  const T = 1
+    - 0.17 * Math.cos((hbarp - 30) * DEG)
+    + 0.24 * Math.cos(2 * hbarp * DEG)
+    + 0.32 * Math.cos((3 * hbarp + 6) * DEG)
+    - 0.20 * Math.cos((4 * hbarp - 63) * DEG);
+  const dTheta = 30 * Math.exp(-(((hbarp - 275) / 25) ** 2));
+  const Cbarp7 = Cbarp ** 7;
+  const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + 25 ** 7));
+  const Lm = (Lbarp - 50) ** 2;
+  const Sl = 1 + (0.015 * Lm) / Math.sqrt(20 + Lm);
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * DEG) * Rc;
+
+  const tl = dLp / Sl, tc = dCp / Sc, th = dHp / Sh;
+  return Math.sqrt(tl * tl + tc * tc + th * th + Rt * tc * th);
+}
+
+/** ΔE between two Lab colors under a perceptual metric. */
+export function labDistance(a: Lab, b: Lab, metric: Exclude<ColorMetric, 'hsl'>): number {
+  return metric === 'de2000' ? deltaE2000(a, b) : deltaE76(a, b);
+}
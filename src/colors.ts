@@ -1,7 +1,21 @@
 import { config } from './config';
+import type { Cell } from './types';
 
 // Colors sourced from dotmaps.config.json — excludes black (not a physical dot)
 export const LEGO_COLORS: { name: string; hex: string }[] = config.colors
   .filter((c) => c.name !== 'black')
   .map((c) => ({ name: c.name, hex: c.hex }));
 
+const colorByName = new Map(config.colors.map((c) => [c.name, c.hex]));
+
+// Water colors from config — black included, as empty cells read as deep water
+export const WATER_HEXES = new Set([
+  colorByName.get('black'),
+  colorByName.get('dark blue'),
+  colorByName.get('turquoise'),
+  colorByName.get('light blue'),
+].filter(Boolean) as string[]);
+
+export function isWaterCell(cell: Cell): boolean {
+  return cell === null || WATER_HEXES.has(cell);
+}
@@ -0,0 +1,138 @@
+// Image → grid conversion off the main thread. The worker runs the same
+// imageToGrid/applyGridLimits code, so results match the synchronous path exactly.
+import type { ClassificationMask } from './classificationMask';
+import { decodeGrid, encodeGrid } from './gridEncoding';
+import type { EncodedGrid } from './gridEncoding';
+import type { LimitReport, RenderOptions } from './imageToGrid';
+import type { RenderRegion } from './renderRegions';
+import type { Grid, Layer } from './types';
+
+export interface ConversionRequest {
+  image: ImageData;
+  width: number;
+  height: number;
+  detailRes?: number;
+  options: RenderOptions;
+  mask?: ClassificationMask | null;
+  heightmap?: ImageData | null;
+  regions?: RenderRegion[];
+  // When set, the base grid is composited with these layers and limit-fixed
+  limitLayers?: Layer[];
+}
+
+// Limit fixing alone, for a grid that is already on the canvas
+export interface LimitRequest {
+  grid: Grid; // composite of the visible layers
+  options: RenderOptions;
+}
+
+export interface ConversionResult {
+  grid: Grid;
+  flattened?: Grid;
+  limitReport?: LimitReport;
+}
+
+export type WorkerRequest =
+  | { type: 'convert'; id: number; request: ConversionRequest }
+  | { type: 'limit'; id: number; grid: EncodedGrid; options: RenderOptions };
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; fraction: number }
+  | { type: 'result'; id: number; grid: EncodedGrid; flattened?: EncodedGrid; limitReport?: LimitReport }
+  | { type: 'error'; id: number; message: string };
+
+/** Thrown (as a rejection) for a request superseded by a newer one. */
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super('Conversion cancelled');
+    this.name = 'ConversionCancelledError';
+  }
+}
+
+export interface Converter {
+  convert: (request: ConversionRequest) => Promise<ConversionResult>;
+  // Resolves with the limit-fixed grid as `grid`
+  limit: (request: LimitRequest) => Promise<ConversionResult>;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+/** Single-flight converter: a new request (conversion or limit fix) cancels the one
+ *  in progress by terminating its worker, since a busy worker cannot read further messages. */
+export function createConverter(onProgress: (fraction: number | null) => void): Converter {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  let pending: { id: number; resolve: (r: ConversionResult) => void; reject: (e: Error) => void } | null = null;
+
+  const spawn = () => {
+    const w = new Worker(new URL('./conversionWorker.ts', import.meta.url), { type: 'module' });
+    w.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (!pending || msg.id !== pending.id) return;
+      if (msg.type === 'progress') {
+        onProgress(msg.fraction);
+        return;
+      }
+      const { resolve, reject } = pending;
+      pending = null;
+      onProgress(null);
+      if (msg.type === 'error') {
+        reject(new Error(msg.message));
+      } else {
+        resolve({
+          grid: decodeGrid(msg.grid),
+          flattened: msg.flattened && decodeGrid(msg.flattened),
+          limitReport: msg.limitReport,
+        });
+      }
+    };
+    w.onerror = (e) => {
+      if (!pending) return;
+      const { reject } = pending;
+      pending = null;
+      onProgress(null);
+      reject(new Error(e.message || 'Conversion worker failed'));
+    };
+    return w;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+    worker?.terminate();
+    worker = null;
+    pending.reject(new ConversionCancelledError());
+    pending = null;
+    onProgress(null);
+  };
+
+  const send = (message: (id: number) => WorkerRequest, transfer: Transferable[]) => {
+    cancel();
+    worker ??= spawn();
+    const id = nextId++;
+    return new Promise<ConversionResult>((resolve, reject) => {
+      pending = { id, resolve, reject };
+      onProgress(0);
+      worker!.postMessage(message(id), transfer);
+    });
+  };
+
+  const convert = (request: ConversionRequest) => {
+    // Transfer a copy so the caller keeps its ImageData for later re-renders
+    const pixels = new Uint8ClampedArray(request.image.data);
+    const image = new ImageData(pixels, request.image.width, request.image.height);
+    return send((id) => ({ type: 'convert', id, request: { ...request, image } }), [pixels.buffer]);
+  };
+
+  const limit = ({ grid, options }: LimitRequest) => {
+    const encoded = encodeGrid(grid);
+    return send((id) => ({ type: 'limit', id, grid: encoded, options }), [encoded.codes.buffer]);
+  };
+
+  const dispose = () => {
+    cancel();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return { convert, limit, cancel, dispose };
+}
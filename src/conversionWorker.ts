@@ -0,0 +1,52 @@
+import type { ConversionRequest, WorkerRequest, WorkerResponse } from './conversion';
+import { decodeGrid, encodeGrid } from './gridEncoding';
+import type { EncodedGrid } from './gridEncoding';
+import { applyGridLimits, imageToGrid } from './imageToGrid';
+import type { RenderOptions } from './imageToGrid';
+import { flattenLayers, replaceBaseGrid } from './layers';
+
+const post = (msg: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(msg, { transfer });
+
+function convert(id: number, request: ConversionRequest) {
+  const { image, width, height, detailRes, options, mask, heightmap, regions, limitLayers } = request;
+  // Progress is throttled to whole percents to keep the message channel quiet
+  let lastPercent = -1;
+  const grid = imageToGrid(image, width, height, detailRes, options, { mask, heightmap, regions }, (fraction) => {
+    const percent = Math.floor(fraction * (limitLayers ? 90 : 100));
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+    post({ type: 'progress', id, fraction: percent / 100 });
+  });
+
+  const encoded = encodeGrid(grid);
+  if (!limitLayers) {
+    post({ type: 'result', id, grid: encoded }, [encoded.codes.buffer]);
+    return;
+  }
+  // Limits apply to the composite, so user layers count toward them too
+  const limited = applyGridLimits(
+    flattenLayers(replaceBaseGrid(limitLayers, grid, width, height), width, height),
+    options,
+  );
+  const flattened = encodeGrid(limited.grid);
+  post(
+    { type: 'result', id, grid: encoded, flattened, limitReport: limited.report },
+    [encoded.codes.buffer, flattened.codes.buffer],
+  );
+}
+
+function limit(id: number, grid: EncodedGrid, options: RenderOptions) {
+  const limited = applyGridLimits(decodeGrid(grid), options);
+  const encoded = encodeGrid(limited.grid);
+  post({ type: 'result', id, grid: encoded, limitReport: limited.report }, [encoded.codes.buffer]);
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  try {
+    if (msg.type === 'convert') convert(msg.id, msg.request);
+    else limit(msg.id, msg.grid, msg.options);
+  } catch (err) {
+    post({ type: 'error', id: msg.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,122 @@
+// Grids as palette indices: a typed array that transfers to workers, and a
+// run-length packed string for project files and stored tabs
+import type { Cell, Grid } from './types';
+
+export interface EncodedGrid {
+  width: number;
+  height: number;
+  palette: Cell[];
+  codes: Uint16Array;
+}
+
+export function encodeGrid(grid: Grid): EncodedGrid {
+  const height = grid.length;
+  const width = grid[0]?.length ?? 0;
+  const palette: Cell[] = [];
+  const index = new Map<Cell, number>();
+  const codes = new Uint16Array(width * height);
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      const cell = grid[r][c];
+      let code = index.get(cell);
+      if (code === undefined) {
+        code = palette.length;
+        palette.push(cell);
+        index.set(cell, code);
+      }
+      codes[r * width + c] = code;
+    }
+  }
+  return { width, height, palette, codes };
+}
+
+export function decodeGrid({ width, height, palette, codes }: EncodedGrid): Grid {
+  return Array.from({ length: height }, (_, r) =>
+    Array.from({ length: width }, (_, c) => palette[codes[r * width + c]]),
+  );
+}
+
+// --- Run-length packing for project files and stored tabs ---
+// Palette indices in row-major order as (index, run length) pairs of LEB128
+// varints, base64-encoded. Large areas of one color collapse to a few bytes.
+
+/** Distinct cells across the grids, in order of first appearance. */
+export function gridPalette(grids: Grid[]): Cell[] {
+  const seen = new Set<Cell>();
+  for (const grid of grids) {
+    for (const row of grid) {
+      for (const cell of row) seen.add(cell);
+    }
+  }
+  return [...seen];
+}
+
+function pushVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+export function packGrid(grid: Grid, palette: Cell[]): string {
+  const index = new Map(palette.map((cell, i) => [cell, i]));
+  const bytes: number[] = [];
+  let code = -1;
+  let run = 0;
+  for (const row of grid) {
+    for (const cell of row) {
+      const next = index.get(cell);
+      if (next === undefined) throw new Error(`Color ${cell} is missing from the palette`);
+      if (next === code) {
+        run++;
+        continue;
+      }
+      if (run > 0) {
+        pushVarint(bytes, code);
+        pushVarint(bytes, run);
+      }
+      code = next;
+      run = 1;
+    }
+  }
+  if (run > 0) {
+    pushVarint(bytes, code);
+    pushVarint(bytes, run);
+  }
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+/** Inverse of packGrid; throws when the data doesn't describe a width × height grid. */
+export function unpackGrid(packed: string, palette: Cell[], width: number, height: number): Grid {
+  let binary: string;
+  try {
+    binary = atob(packed);
+  } catch {
+    throw new Error('not valid base64');
+  }
+  let pos = 0;
+  const readVarint = () => {
+    let value = 0;
+    for (let shift = 0; ; shift += 7) {
+      if (pos >= binary.length || shift > 28) throw new Error('truncated run data');
+      const b = binary.charCodeAt(pos++);
+      value += (b & 0x7f) * 2 ** shift;
+      if (b < 0x80) return value;
+    }
+  };
+
+  const total = width * height;
+  const cells: Cell[] = [];
+  while (pos < binary.length) {
+    const code = readVarint();
+    const run = readVarint();
+    if (code >= palette.length) throw new Error(`palette index ${code} is out of range (palette has ${palette.length} entries)`);
+    if (run === 0 || cells.length + run > total) throw new Error(`runs cover more than the ${total} cells of the grid`);
+    for (let i = 0; i < run; i++) cells.push(palette[code]);
+  }
+  if (cells.length !== total) throw new Error(`runs cover ${cells.length} cells, expected ${total}`);
+  return Array.from({ length: height }, (_, r) => cells.slice(r * width, (r + 1) * width));
+}
@@ -0,0 +1,126 @@
+import { reflattenRows } from './layers';
+import type { Cell, CellPatch, EditorAction, EditorState, Grid, HistoryEntry, HistoryProps, Layer } from './types';
+
+function propsOf(state: EditorState): HistoryProps {
+  return {
+    activeLayerId: state.activeLayerId,
+    width: state.width,
+    height: state.height,
+    activeColor: state.activeColor,
+    activeTool: state.activeTool,
+    shapeFilled: state.shapeFilled,
+    wandOptions: state.wandOptions,
+    selection: state.selection,
+    floating: state.floating,
+  };
+}
+
+// Same dimensions and the same layers in the same order with the same settings —
+// only then can the difference be expressed as cell patches
+function sameStructure(a: EditorState, b: EditorState): boolean {
+  if (a.width !== b.width || a.height !== b.height || a.layers.length !== b.layers.length) return false;
+  return a.layers.every((la, i) => {
+    const lb = b.layers[i];
+    return la.id === lb.id && la.name === lb.name && la.kind === lb.kind
+      && la.visible === lb.visible && la.locked === lb.locked;
+  });
+}
+
+const dots = (n: number) => `${n} ${n === 1 ? 'dot' : 'dots'}`;
+
+const TRANSFORM_LABELS = { cw: 'Rotate CW', ccw: 'Rotate CCW', 'flip-h': 'Flip horizontal', 'flip-v': 'Flip vertical' };
+
+/** Human-readable name of an undoable action for the history panel. */
+export function describeAction(action: EditorAction, changed: number): string {
+  switch (action.type) {
+    case 'PAINT': return `Paint ${dots(changed)}`;
+    case 'ERASE': return `Erase ${dots(changed)}`;
+    case 'FILL': return `Fill ${dots(changed)}`;
+    case 'DRAW_SHAPE': return `Draw ${action.shape}`;
+    case 'RECOLOR_SELECTION': return `Recolor ${dots(changed)}`;
+    case 'DELETE_SELECTION': return `Delete ${dots(changed)}`;
+    case 'REPLACE_COLORS': return `Replace ${dots(changed)}`;
+    case 'COMMIT_FLOATING': return 'Place selection';
+    case 'RESIZE': return `Resize to ${action.width}×${action.height}`;
+    case 'LOAD_GRID': return 'Load map';
+    case 'ROTATE_GRID': return TRANSFORM_LABELS[action.direction];
+    case 'FLIP_GRID': return TRANSFORM_LABELS[action.axis === 'horizontal' ? 'flip-h' : 'flip-v'];
+    case 'TRANSFORM_SELECTION': return `${TRANSFORM_LABELS[action.transform]} selection`;
+    case 'SET_BASE_GRID': return 'Re-render image';
+    case 'APPLY_FLATTENED': return 'Apply piece limits';
+    case 'ADD_LAYER': return 'Add layer';
+    case 'DELETE_LAYER': return 'Delete layer';
+    case 'SET_LAYER_VISIBLE': return action.visible ? 'Show layer' : 'Hide layer';
+    case 'MOVE_LAYER': return `Move layer ${action.direction}`;
+    case 'FLATTEN_LAYERS': return 'Flatten layers';
+    default: return 'Edit';
+  }
+}
+
+/** History entry that takes `after` back to `before`. Rows shared between the
+ *  two grids are skipped, so a stroke costs only the cells it touched. */
+export function diffStates(before: EditorState, after: EditorState, action: EditorAction): HistoryEntry {
+  if (!sameStructure(before, after)) {
+    return { kind: 'snapshot', label: describeAction(action, 0), state: before };
+  }
+  const patches: CellPatch[] = [];
+  before.layers.forEach((layer, i) => {
+    const next = after.layers[i].grid;
+    if (layer.grid === next) return;
+    for (let r = 0; r < before.height; r++) {
+      const rowBefore = layer.grid[r];
+      const rowAfter = next[r];
+      if (rowBefore === rowAfter) continue;
+      for (let c = 0; c < before.width; c++) {
+        if (rowBefore[c] !== rowAfter[c]) {
+          patches.push({ layerId: layer.id, row: r, col: c, before: rowBefore[c], after: rowAfter[c] });
+        }
+      }
+    }
+  });
+  return { kind: 'cells', label: describeAction(action, patches.length), patches, props: propsOf(before) };
+}
+
+/** Apply an entry to `present` in the given direction. Returns the new state
+ *  and the entry that reverses it, for the opposite history stack. */
+export function applyEntry(
+  present: EditorState,
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo',
+): { state: EditorState; inverse: HistoryEntry } {
+  if (entry.kind === 'snapshot') {
+    return { state: entry.state, inverse: { ...entry, state: present } };
+  }
+
+  const grids = new Map<string, Grid>();
+  const copiedRows = new Map<string, Set<number>>();
+  const touchedRows = new Set<number>();
+  for (const p of entry.patches) {
+    const value: Cell = direction === 'undo' ? p.before : p.after;
+    let grid = grids.get(p.layerId);
+    if (!grid) {
+      grid = present.layers.find((l) => l.id === p.layerId)!.grid.slice();
+      grids.set(p.layerId, grid);
+      copiedRows.set(p.layerId, new Set());
+    }
+    const copied = copiedRows.get(p.layerId)!;
+    if (!copied.has(p.row)) {
+      grid[p.row] = grid[p.row].slice();
+      copied.add(p.row);
+    }
+    grid[p.row][p.col] = value;
+    touchedRows.add(p.row);
+  }
+
+  const layers: Layer[] = present.layers.map((l) => {
+    const grid = grids.get(l.id);
+    return grid ? { ...l, grid } : l;
+  });
+  const grid = touchedRows.size > 0
+    ? reflattenRows(present.grid, layers, present.width, touchedRows)
+    : present.grid;
+  return {
+    state: { ...entry.props, grid, layers },
+    inverse: { ...entry, props: propsOf(present) },
+  };
+}
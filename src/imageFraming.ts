@@ -0,0 +1,79 @@
+// How an imported image is placed in the plate area: which orientation, how
+// it fits (crop to fill, letterbox, or stretch) and the zoom/pan on top of that.
+
+export type FitMode = 'fill' | 'letterbox' | 'stretch';
+export type Orientation = 'landscape' | 'portrait';
+
+export interface ImageFraming {
+  orientation: Orientation;
+  fit: FitMode;    // 'stretch' = aspect unlocked
+  zoom: number;    // 1 = whole image (fill: whole frame) visible
+  centerX: number; // frame center in normalized image coordinates
+  centerY: number;
+}
+
+// Region of the image shown in the frame, normalized to the image size.
+// Letterboxed frames extend past 0–1; the overflow renders as black.
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MAX_FRAME_ZOOM = 4;
+
+export function defaultFraming(imgW: number, imgH: number): ImageFraming {
+  return { orientation: imgW >= imgH ? 'landscape' : 'portrait', fit: 'fill', zoom: 1, centerX: 0.5, centerY: 0.5 };
+}
+
+export function framingRect(framing: ImageFraming, imgW: number, imgH: number, gridW: number, gridH: number): FrameRect {
+  const { fit, zoom } = framing;
+  let width: number, height: number;
+  if (fit === 'stretch') {
+    width = height = 1 / zoom;
+  } else {
+    // Frame size in image pixels at zoom 1: inside the image (fill) or around it (letterbox)
+    const aspect = gridW / gridH;
+    const frameW = fit === 'fill' ? Math.min(imgW, imgH * aspect) : Math.max(imgW, imgH * aspect);
+    width = frameW / zoom / imgW;
+    height = frameW / aspect / zoom / imgH;
+  }
+  // A frame smaller than the image stays inside it; a larger one keeps the image inside
+  const clampCenter = (c: number, size: number) =>
+    Math.max(Math.min(size / 2, 1 - size / 2), Math.min(Math.max(size / 2, 1 - size / 2), c));
+  const cx = clampCenter(framing.centerX, width);
+  const cy = clampCenter(framing.centerY, height);
+  return { x: cx - width / 2, y: cy - height / 2, width, height };
+}
+
+/** Normalize the pan so the stored center matches what framingRect shows. */
+export function clampFraming(framing: ImageFraming, imgW: number, imgH: number, gridW: number, gridH: number): ImageFraming {
+  const rect = framingRect(framing, imgW, imgH, gridW, gridH);
+  return { ...framing, centerX: rect.x + rect.width / 2, centerY: rect.y + rect.height / 2 };
+}
+
+/** Cut the framed region out of the image (nearest-neighbor), padding with black. */
+export function frameImage(image: ImageData, rect: FrameRect): ImageData {
+  const { width: imgW, height: imgH, data } = image;
+  const outW = Math.max(1, Math.round(rect.width * imgW));
+  const outH = Math.max(1, Math.round(rect.height * imgH));
+  const out = new Uint8ClampedArray(outW * outH * 4);
+  for (let y = 0; y < outH; y++) {
+    const sy = Math.floor((rect.y + ((y + 0.5) / outH) * rect.height) * imgH);
+    for (let x = 0; x < outW; x++) {
+      const sx = Math.floor((rect.x + ((x + 0.5) / outW) * rect.width) * imgW);
+      const o = (y * outW + x) * 4;
+      if (sx < 0 || sx >= imgW || sy < 0 || sy >= imgH) {
+        out[o + 3] = 255;
+        continue;
+      }
+      const i = (sy * imgW + sx) * 4;
+      out[o] = data[i];
+      out[o + 1] = data[i + 1];
+      out[o + 2] = data[i + 2];
+      out[o + 3] = data[i + 3];
+    }
+  }
+  return new ImageData(out, outW, outH);
+}
@@ -1,23 +1,95 @@
-import { LEGO_COLORS } from './colors';
+import { LEGO_COLORS, WATER_HEXES, isWaterCell } from './colors';
 import { config } from './config';
+import { labDistance, rgbToLab } from './colorDistance';
+import type { ColorMetric } from './colorDistance';
+import { maskValueAt } from './classificationMask';
+import type { ClassificationMask } from './classificationMask';
+import { detectLinePixels, lineCells } from './lineExtraction';
+import { minCostFlow } from './minCostFlow';
+import type { FlowEdge } from './minCostFlow';
+import { regionContains } from './renderRegions';
+import type { RegionOption, RenderRegion } from './renderRegions';
 import type { Cell, Grid } from './types';
 
+// map = water/land aware; photo = perceptual full-palette matching; pixel-art = exact nearest color
+export type ConversionMode = 'map' | 'photo' | 'pixel-art';
+
+export const CONVERSION_MODES: { mode: ConversionMode; label: string }[] = [
+  { mode: 'map', label: 'Map' },
+  { mode: 'photo', label: 'Photo' },
+  { mode: 'pixel-art', label: 'Pixel art' },
+];
+
+export type LandDither = 'none' | 'floyd-steinberg' | 'atkinson' | 'bayer';
+
+export const LAND_DITHERS: { dither: LandDither; label: string }[] = [
+  { dither: 'none', label: 'None' },
+  { dither: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { dither: 'atkinson', label: 'Atkinson' },
+  { dither: 'bayer', label: 'Bayer (ordered)' },
+];
+
+// Land color from each cell's own pixel, or from heightmap elevation bands
+export type LandColoring = 'color' | 'elevation';
+
+export const LAND_COLORINGS: { coloring: LandColoring; label: string }[] = [
+  { coloring: 'color', label: 'Source color' },
+  { coloring: 'elevation', label: 'Elevation bands' },
+];
+
+// Piece-limit fixing: greedy per-color passes, or a global min-cost assignment
+export type LimitSolver = 'greedy' | 'optimal';
+
+export const LIMIT_SOLVERS: { solver: LimitSolver; label: string }[] = [
+  { solver: 'greedy', label: 'Greedy (fast)' },
+  { solver: 'optimal', label: 'Optimal (min color error)' },
+];
+
 export interface RenderOptions {
+  conversionMode: ConversionMode; // default 'map'
   waterDepth: number;       // 0–100, default 50
   includeBlack: boolean;    // default true
   colorVibrancy: number;    // 0–100, default 60
   coastlineWidth: number;   // 0–100, default 70
   waterSensitivity: number; // 0–100, default 50
+  colorMetric: ColorMetric; // land matching and limit substitution, default 'hsl'
+  landDither: LandDither;   // default 'none'
+  ditherStrength: number;   // 0–100, default 50
+  limitSolver: LimitSolver; // default 'greedy'
+  preserveLines: boolean;   // thin border/river/road extraction, default false
+  lineColor: Cell;          // default null (black = empty)
+  lineWidth: number;        // widest line in source px, 1–10, default 3
+  linesOnLandOnly: boolean; // map mode, default true
+  landColoring: LandColoring;  // map mode, default 'color'
+  elevationBands: string[];    // lowest to highest, default green → sage green → sand → white
 }
 
 export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  conversionMode: 'map',
   waterDepth: 50,
   includeBlack: true,
   colorVibrancy: 60,
   coastlineWidth: 70,
   waterSensitivity: 50,
+  colorMetric: 'hsl',
+  landDither: 'none',
+  ditherStrength: 50,
+  limitSolver: 'greedy',
+  preserveLines: false,
+  lineColor: null,
+  lineWidth: 3,
+  linesOnLandOnly: true,
+  landColoring: 'color',
+  elevationBands: ['green', 'sage green', 'sand', 'white'].map((name) => config.colors.find((c) => c.name === name)!.hex),
 };
 
+// Per-tab conversion inputs besides the image itself
+export interface SourceOverlays {
+  mask?: ClassificationMask | null; // painted water/land overrides (map mode)
+  heightmap?: ImageData | null;     // grayscale elevation, same extent as the image (map mode)
+  regions?: RenderRegion[];         // areas with their own option values
+}
+
 // Deterministic non-linear 2D hash → [0, 1) with no visible spatial pattern
 function hash2d(x: number, y: number): number {
   let h = Math.imul(x, 374761393) + Math.imul(y, 668265263);
@@ -26,11 +98,14 @@ function hash2d(x: number, y: number): number {
   return ((h & 0x7fffffff) / 0x7fffffff);
 }
 
-// Pick a water gradient color using dithered interpolation instead of hard bands
-function pickWaterGradient(t: number, x: number, y: number, gradient: Cell[], depthBias: number): Cell {
+// Pick a gradient color (water depth, land elevation) using dithered
+// interpolation instead of hard bands
+function pickGradient(t: number, x: number, y: number, gradient: Cell[], depthBias: number): Cell {
+  const last = gradient.length - 1;
+  if (last < 1) return gradient[0] ?? null;
   const tAdj = Math.max(0, Math.min(1, t + depthBias));
-  const tScaled = Math.max(0, Math.min(3, tAdj * 3));
-  const lower = Math.min(2, Math.floor(tScaled));
+  const tScaled = Math.max(0, Math.min(last, tAdj * last));
+  const lower = Math.min(last - 1, Math.floor(tScaled));
   const upper = lower + 1;
   const frac = tScaled - lower;
   const gi = hash2d(x, y) < frac ? upper : lower;
@@ -79,16 +154,6 @@ const PALETTE_HSL = LEGO_COLORS.map((c) => {
 // --- Color sets by config name ---
 const colorByName = new Map(config.colors.map((c) => [c.name, c.hex]));
 
-// Black hex from config — used for classification only, grid stores null for "black" (empty)
-const BLACK_HEX = colorByName.get('black')!;
-
-const WATER_HEXES = new Set([
-  BLACK_HEX,
-  colorByName.get('dark blue'),
-  colorByName.get('turquoise'),
-  colorByName.get('light blue'),
-].filter(Boolean) as string[]);
-
 const LAND_HEXES = new Set(
   config.colors
     .filter((c) => !WATER_HEXES.has(c.hex))
@@ -115,7 +180,7 @@ function getWaterGradient(opts: RenderOptions): Cell[] {
 
 const LAND_PALETTE = PALETTE_HSL.filter((c) => LAND_HEXES.has(c.hex)).map(c => {
   const [r, g, b] = hexToRgb(c.hex);
-  return { ...c, r, g, b };
+  return { ...c, r, g, b, lab: rgbToLab(r, g, b) };
 });
 
 // Land color matching: pre-boost saturation so muted map pixels
@@ -152,6 +217,85 @@ function closestLandColor(r: number, g: number, b: number, boostFactor: number):
   return bestHex;
 }
 
+// Perceptual land matching: scale Lab chroma by the vibrancy boost, then take
+// the palette color with the smallest ΔE
+function closestLandColorLab(r: number, g: number, b: number, chromaBoost: number, metric: Exclude<ColorMetric, 'hsl'>): string {
+  const [L, A, B] = rgbToLab(r, g, b);
+  const lab: [number, number, number] = [L, A * chromaBoost, B * chromaBoost];
+  let bestDist = Infinity;
+  let bestHex = LAND_PALETTE[0].hex;
+  for (const pc of LAND_PALETTE) {
+    const dist = labDistance(lab, pc.lab, metric);
+    if (dist < bestDist) { bestDist = dist; bestHex = pc.hex; }
+  }
+  return bestHex;
+}
+
+// Distance between two palette colors under the selected metric
+function paletteDistance(
+  hex: string,
+  pc: { r: number; g: number; b: number; lab: [number, number, number] },
+  metric: ColorMetric,
+): number {
+  const [r, g, b] = hexToRgb(hex);
+  if (metric === 'hsl') {
+    const [h, s, l] = rgbToHsl(r, g, b);
+    const [ph, ps, pl] = rgbToHsl(pc.r, pc.g, pc.b);
+    return hslDistance(h, s, l, ph, ps, pl);
+  }
+  return labDistance(rgbToLab(r, g, b), pc.lab, metric);
+}
+
+// --- Land dithering ---
+// Error-diffusion kernels as [dx, dy, weight]; Atkinson deliberately drops 1/4 of the error
+const DIFFUSION_KERNELS: Partial<Record<LandDither, [number, number, number][]>> = {
+  'floyd-steinberg': [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]],
+  atkinson: [[1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8]],
+};
+
+const BAYER_4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+const BAYER_SPREAD = 96; // RGB offset range at full strength
+
+// Every config color including black, which maps to an empty cell — used by the non-map modes
+const FULL_PALETTE = config.colors.map((c) => {
+  const [r, g, b] = hexToRgb(c.hex);
+  return { cell: (c.name === 'black' ? null : c.hex) as Cell, r, g, b, lab: rgbToLab(r, g, b) };
+});
+
+const CELL_RGB = new Map<Cell, readonly [number, number, number]>(
+  FULL_PALETTE.map((pc) => [pc.cell, [pc.r, pc.g, pc.b] as const]),
+);
+
+// Photo mode: plain ΔE over the full palette, no saturation/chroma boost
+function closestPaletteColorLab(r: number, g: number, b: number, metric: Exclude<ColorMetric, 'hsl'>): Cell {
+  const lab = rgbToLab(r, g, b);
+  let bestDist = Infinity;
+  let best = FULL_PALETTE[0].cell;
+  for (const pc of FULL_PALETTE) {
+    const dist = labDistance(lab, pc.lab, metric);
+    if (dist < bestDist) { bestDist = dist; best = pc.cell; }
+  }
+  return best;
+}
+
+// Pixel-art mode: exact nearest color by RGB distance
+function closestPaletteColorRgb(r: number, g: number, b: number): Cell {
+  let bestDist = Infinity;
+  let best = FULL_PALETTE[0].cell;
+  for (const pc of FULL_PALETTE) {
+    const dist = (r - pc.r) ** 2 + (g - pc.g) ** 2 + (b - pc.b) ** 2;
+    if (dist < bestDist) { bestDist = dist; best = pc.cell; }
+  }
+  return best;
+}
+
+const clamp255 = (v: number) => Math.max(0, Math.min(255, v));
+
 // --- Pixel classification ---
 function isWaterPixel(r: number, g: number, b: number, sensitivity: number): boolean {
   const [h, s, l] = rgbToHsl(r, g, b);
@@ -205,6 +349,42 @@ function computeDistanceField(
   return dist;
 }
 
+// Per-cell values for the options regions override. Regions apply in order,
+// each pulling the value toward its own with a weight that ramps smoothly
+// from 0 to 1 across `feather` cells centered on its border.
+function regionOptionFields(
+  regions: RenderRegion[],
+  opts: RenderOptions,
+  w: number,
+  h: number,
+): Partial<Record<RegionOption, Float32Array>> {
+  const fields: Partial<Record<RegionOption, Float32Array>> = {};
+  for (const region of regions) {
+    const keys = Object.keys(region.overrides) as RegionOption[];
+    if (keys.length === 0) continue;
+    const inside = Array.from({ length: w * h }, (_, i) => regionContains(region, Math.floor(i / w), i % w, w, h));
+    const toOutside = computeDistanceField(inside, w, h, false);
+    const toInside = computeDistanceField(inside, w, h, true);
+    const weight = new Float32Array(w * h);
+    for (let i = 0; i < w * h; i++) {
+      if (region.feather <= 0) {
+        weight[i] = inside[i] ? 1 : 0;
+        continue;
+      }
+      // Signed distance to the border, positive inside
+      const d = inside[i] ? toOutside[i] - 0.5 : 0.5 - toInside[i];
+      const t = Math.max(0, Math.min(1, 0.5 + d / region.feather));
+      weight[i] = t * t * (3 - 2 * t);
+    }
+    for (const key of keys) {
+      const field = fields[key] ??= new Float32Array(w * h).fill(opts[key]);
+      const target = region.overrides[key]!;
+      for (let i = 0; i < w * h; i++) field[i] += (target - field[i]) * weight[i];
+    }
+  }
+  return fields;
+}
+
 function computeEdgeDistance(w: number, h: number): Float32Array {
   const dist = new Float32Array(w * h);
   for (let y = 0; y < h; y++) {
@@ -220,6 +400,7 @@ function downsampleToBuffer(
   imageData: ImageData,
   gridWidth: number,
   gridHeight: number,
+  skip?: Uint8Array, // source pixels left out of the average (unless a cell has nothing else)
 ): Float32Array {
   const { width: imgW, height: imgH, data } = imageData;
   const buf = new Float32Array(gridWidth * gridHeight * 3);
@@ -230,11 +411,14 @@ function downsampleToBuffer(
       const y0 = Math.floor((gy * imgH) / gridHeight);
       const y1 = Math.floor(((gy + 1) * imgH) / gridHeight);
       let rSum = 0, gSum = 0, bSum = 0, count = 0;
-      for (let y = y0; y < y1; y++) {
-        for (let x = x0; x < x1; x++) {
-          const i = (y * imgW + x) * 4;
-          rSum += data[i]; gSum += data[i + 1]; bSum += data[i + 2];
-          count++;
+      for (let pass = 0; pass < 2 && count === 0; pass++) {
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            if (pass === 0 && skip?.[y * imgW + x]) continue;
+            const i = (y * imgW + x) * 4;
+            rSum += data[i]; gSum += data[i + 1]; bSum += data[i + 2];
+            count++;
+          }
         }
       }
       const idx = (gy * gridWidth + gx) * 3;
@@ -246,7 +430,31 @@ function downsampleToBuffer(
   return buf;
 }
 
-/** Convert an image to a LEGO dot grid with map-aware coloring.
+// Point-sample the source pixel at each cell's center — no averaging, so hard
+// pixel-art edges and exact colors survive
+function sampleToBuffer(
+  imageData: ImageData,
+  gridWidth: number,
+  gridHeight: number,
+): Float32Array {
+  const { width: imgW, height: imgH, data } = imageData;
+  const buf = new Float32Array(gridWidth * gridHeight * 3);
+  for (let gy = 0; gy < gridHeight; gy++) {
+    const y = Math.min(imgH - 1, Math.floor(((gy + 0.5) * imgH) / gridHeight));
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const x = Math.min(imgW - 1, Math.floor(((gx + 0.5) * imgW) / gridWidth));
+      const i = (y * imgW + x) * 4;
+      const idx = (gy * gridWidth + gx) * 3;
+      buf[idx] = data[i];
+      buf[idx + 1] = data[i + 1];
+      buf[idx + 2] = data[i + 2];
+    }
+  }
+  return buf;
+}
+
+/** Convert an image to a LEGO dot grid — map-aware coloring in map mode, plain
+ *  palette matching in photo and pixel-art modes.
  *  detailRes controls intermediate sampling resolution; the result is always gridWidth x gridHeight. */
 export function imageToGrid(
   imageData: ImageData,
@@ -254,6 +462,8 @@ export function imageToGrid(
   gridHeight: number,
   detailRes?: number,
   opts: RenderOptions = DEFAULT_RENDER_OPTIONS,
+  overlays: SourceOverlays = {},
+  onProgress?: (fraction: number) => void, // 0–1, reported per grid row
 ): Grid {
   // If detailRes is given, sample at a smaller size then nearest-neighbour upscale
   if (detailRes && detailRes < Math.max(gridWidth, gridHeight)) {
@@ -266,7 +476,7 @@ export function imageToGrid(
       sh = detailRes;
       sw = Math.max(1, Math.round(detailRes * aspect));
     }
-    const small = imageToGrid(imageData, sw, sh, undefined, opts);
+    const small = imageToGrid(imageData, sw, sh, undefined, opts, overlays, onProgress);
     const grid: Grid = Array.from({ length: gridHeight }, (_, r) => {
       const sr = Math.min(Math.floor((r * sh) / gridHeight), sh - 1);
       return Array.from({ length: gridWidth }, (_, c) => {
@@ -277,19 +487,47 @@ export function imageToGrid(
     return grid;
   }
 
-  const buf = downsampleToBuffer(imageData, gridWidth, gridHeight);
+  const { mask, heightmap, regions } = overlays;
+  const mode = opts.conversionMode;
+  // Region overrides vary some options per cell; everything else reads opts directly
+  const regionFields = regions?.length ? regionOptionFields(regions, opts, gridWidth, gridHeight) : {};
+  const optAt = (key: RegionOption, i: number) => regionFields[key]?.[i] ?? opts[key];
+  // Thin lines are found at full resolution and kept out of the cell averages,
+  // so a dark border doesn't drag its cells toward water; they're stamped on below
+  const linePixels = opts.preserveLines && mode !== 'pixel-art' ? detectLinePixels(imageData, opts.lineWidth) : undefined;
+  const onLine = linePixels && lineCells(linePixels, imageData.width, imageData.height, gridWidth, gridHeight);
+  const buf = mode === 'pixel-art'
+    ? sampleToBuffer(imageData, gridWidth, gridHeight)
+    : downsampleToBuffer(imageData, gridWidth, gridHeight, linePixels);
   const gradient = getWaterGradient(opts);
-  const depthBias = (50 - opts.waterDepth) / 100;
-  const boostFactor = 1.0 + (opts.colorVibrancy / 100) * 2.5;
-  const coastW = opts.coastlineWidth / 100;
-
-  // 1) Classify each cell as water or land
+  // Pixel art is matched as-is, never dithered
+  const dither = mode === 'pixel-art' ? 'none' : opts.landDither;
+  const kernel = DIFFUSION_KERNELS[dither];
+  const perceptual = opts.colorMetric === 'hsl' ? 'de2000' : opts.colorMetric;
+  const matchLand = (r: number, g: number, b: number, i: number): Cell => {
+    if (mode === 'pixel-art') return closestPaletteColorRgb(r, g, b);
+    if (mode === 'photo') return closestPaletteColorLab(r, g, b, perceptual);
+    const vibrancy = optAt('colorVibrancy', i) / 100;
+    // Lab chroma is already on the palette's scale, so perceptual modes boost far less
+    return opts.colorMetric === 'hsl'
+      ? closestLandColor(r, g, b, 1.0 + vibrancy * 2.5)
+      : closestLandColorLab(r, g, b, 1.0 + vibrancy * 0.5, opts.colorMetric);
+  };
+
+  // 1) Classify each cell as water or land — only maps have water; in the other
+  //    modes every cell is matched against the palette like land. Painted mask
+  //    cells override the thresholds, and the coast distances below follow them.
   const isWater = new Array<boolean>(gridWidth * gridHeight);
   for (let i = 0; i < gridWidth * gridHeight; i++) {
     const r = buf[i * 3], g = buf[i * 3 + 1], b = buf[i * 3 + 2];
-    isWater[i] = isWaterPixel(r, g, b, opts.waterSensitivity);
+    const forced = mode === 'map' && mask
+      ? maskValueAt(mask, Math.floor(i / gridWidth), i % gridWidth, gridWidth, gridHeight)
+      : 'auto';
+    isWater[i] = mode === 'map' && (forced === 'auto' ? isWaterPixel(r, g, b, optAt('waterSensitivity', i)) : forced === 'water');
   }
 
+  onProgress?.(0.1);
+
   // 2) Distance from each water cell to nearest land cell
   const distToLand = computeDistanceField(isWater, gridWidth, gridHeight, false);
 
@@ -306,10 +544,31 @@ export function imageToGrid(
     if (distToEdge[i] > maxEdgeDist) maxEdgeDist = distToEdge[i];
   }
 
+  // Land elevation from the heightmap's brightness, normalized over land cells
+  // so the bands span the land actually in view
+  let elevation: Float32Array | null = null;
+  if (mode === 'map' && opts.landColoring === 'elevation' && heightmap && opts.elevationBands.length > 0) {
+    const hbuf = downsampleToBuffer(heightmap, gridWidth, gridHeight);
+    elevation = new Float32Array(gridWidth * gridHeight);
+    let lo = Infinity, hi = -Infinity;
+    for (let i = 0; i < gridWidth * gridHeight; i++) {
+      elevation[i] = 0.299 * hbuf[i * 3] + 0.587 * hbuf[i * 3 + 1] + 0.114 * hbuf[i * 3 + 2];
+      if (isWater[i]) continue;
+      lo = Math.min(lo, elevation[i]);
+      hi = Math.max(hi, elevation[i]);
+    }
+    const range = Math.max(1, hi - lo);
+    for (let i = 0; i < elevation.length; i++) elevation[i] = (elevation[i] - lo) / range;
+  }
+
+  onProgress?.(0.3);
+
   // 4) Build grid
   const grid: Grid = Array.from({ length: gridHeight }, () =>
     Array(gridWidth).fill(null),
   );
+  // Quantization error carried forward to land cells not yet visited
+  const landError = kernel ? new Float32Array(gridWidth * gridHeight * 3) : null;
 
   for (let gy = 0; gy < gridHeight; gy++) {
     for (let gx = 0; gx < gridWidth; gx++) {
@@ -318,36 +577,60 @@ export function imageToGrid(
       const g = Math.max(0, Math.min(255, buf[i * 3 + 1]));
       const b = Math.max(0, Math.min(255, buf[i * 3 + 2]));
 
-      if (isWater[i]) {
+      if (onLine?.[i] && !(opts.linesOnLandOnly && isWater[i])) {
+        grid[gy][gx] = opts.lineColor;
+      } else if (isWater[i]) {
         const landNorm = distToLand[i] < Infinity ? distToLand[i] / maxLandDist : 1;
         const edgeNorm = distToEdge[i] / maxEdgeDist;
+        const coastW = optAt('coastlineWidth', i) / 100;
         const t = (1 - landNorm) * coastW + (1 - edgeNorm) * (1 - coastW);
-        grid[gy][gx] = pickWaterGradient(t, gx, gy, gradient, depthBias);
+        grid[gy][gx] = pickGradient(t, gx, gy, gradient, (50 - optAt('waterDepth', i)) / 100);
+      } else if (elevation) {
+        grid[gy][gx] = pickGradient(elevation[i], gx, gy, opts.elevationBands, 0);
+      } else if (landError) {
+        const lr = clamp255(r + landError[i * 3]);
+        const lg = clamp255(g + landError[i * 3 + 1]);
+        const lb = clamp255(b + landError[i * 3 + 2]);
+        const hex = matchLand(lr, lg, lb, i);
+        grid[gy][gx] = hex;
+        const [pr, pg, pb] = CELL_RGB.get(hex)!;
+        for (const [dx, dy, weight] of kernel!) {
+          const nx = gx + dx, ny = gy + dy;
+          if (nx < 0 || nx >= gridWidth || ny >= gridHeight) continue;
+          const ni = ny * gridWidth + nx;
+          // Error stays on land — never pushed into the water mask
+          if (isWater[ni]) continue;
+          const k = weight * optAt('ditherStrength', i) / 100;
+          landError[ni * 3] += (lr - pr) * k;
+          landError[ni * 3 + 1] += (lg - pg) * k;
+          landError[ni * 3 + 2] += (lb - pb) * k;
+        }
+      } else if (dither === 'bayer') {
+        const offset = ((BAYER_4[gy % 4][gx % 4] + 0.5) / 16 - 0.5) * BAYER_SPREAD * optAt('ditherStrength', i) / 100;
+        grid[gy][gx] = matchLand(clamp255(r + offset), clamp255(g + offset), clamp255(b + offset), i);
       } else {
-        grid[gy][gx] = closestLandColor(r, g, b, boostFactor);
+        grid[gy][gx] = matchLand(r, g, b, i);
       }
     }
+    onProgress?.(0.3 + 0.7 * (gy + 1) / gridHeight);
   }
 
   return grid;
 }
 
-/** Re-assign over-limit dots to nearest available color respecting map semantics.
- *  Uses priority scoring so limited colors are distributed evenly across the
- *  entire map rather than row-by-row top-to-bottom. */
-export function fixGridLimits(grid: Grid): Grid {
+// Shared setup for the limit solvers: cells grouped by color, and a priority
+// per cell — higher = more important to keep its current color there
+function limitContext(grid: Grid, mode: ConversionMode) {
   const h = grid.length;
   const w = grid[0]?.length ?? 0;
   const total = w * h;
-  const limits = new Map(config.colors.map((c) => [c.hex, c.quantity]));
 
   // Classify each cell as water or land based on its current color
   // null = black/empty = deepest water
   const cellIsWater: boolean[] = new Array(total);
   for (let r = 0; r < h; r++) {
     for (let c = 0; c < w; c++) {
-      const hex = grid[r][c];
-      cellIsWater[r * w + c] = hex === null || WATER_HEXES.has(hex);
+      cellIsWater[r * w + c] = isWaterCell(grid[r][c]);
     }
   }
 
@@ -359,9 +642,11 @@ export function fixGridLimits(grid: Grid): Grid {
     if (cellIsWater[i] && distToLand[i] < Infinity && distToLand[i] > maxLandDist) maxLandDist = distToLand[i];
     if (distToEdge[i] > maxEdgeDist) maxEdgeDist = distToEdge[i];
   }
+  const landNormAt = (idx: number) => distToLand[idx] < Infinity ? distToLand[idx] / maxLandDist : 1;
+  const edgeNormAt = (idx: number) => distToEdge[idx] / maxEdgeDist;
 
   // Collect positions grouped by color (with flat index for distance lookups)
-  const colorPositions = new Map<string, { row: number; col: number; idx: number }[]>();
+  const colorPositions = new Map<string, CellPos[]>();
   for (let r = 0; r < h; r++) {
     for (let c = 0; c < w; c++) {
       const hex = grid[r][c];
@@ -373,6 +658,63 @@ export function fixGridLimits(grid: Grid): Grid {
     }
   }
 
+  const lightBlueHex = colorByName.get('light blue')!;
+  const turquoiseHex = colorByName.get('turquoise')!;
+  const darkBlueHex = colorByName.get('dark blue')!;
+
+  const priority = (hex: string, pos: CellPos): number => {
+    const landNorm = landNormAt(pos.idx);
+    const edgeNorm = edgeNormAt(pos.idx);
+    // Non-linear spatial jitter to break ties without diagonal artifacts
+    const jitter = hash2d(pos.row, pos.col) * 0.0001;
+
+    if (mode === 'map' && WATER_HEXES.has(hex)) {
+      if (hex === lightBlueHex) return (1 - landNorm) + jitter;
+      if (hex === turquoiseHex) return (1 - landNorm) * 0.85 + edgeNorm * 0.15 + jitter;
+      if (hex === darkBlueHex) return (1 - Math.abs(landNorm - 0.35)) + jitter;
+      return landNorm * 0.7 + (1 - edgeNorm) * 0.3 + jitter;
+    }
+    if (mode === 'map') {
+      // Land: non-linear 2D hash for organic distribution (no diagonal stripes)
+      return hash2d(pos.row, pos.col);
+    }
+    // Non-map: share of same-colored neighbors, hash-jittered within each level
+    let same = 0;
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        if ((dr || dc) && grid[pos.row + dr]?.[pos.col + dc] === hex) same++;
+      }
+    }
+    return same / 8 + hash2d(pos.row, pos.col) * 0.1;
+  };
+
+  // Sorted descending — the highest-priority positions keep their color
+  const byPriority = (hex: string) => colorPositions.get(hex)!
+    .map((pos) => ({ ...pos, priority: priority(hex, pos) }))
+    .sort((a, b) => b.priority - a.priority);
+
+  // How deep a water cell should be: 0 = open sea, 1 = at the coast
+  const waterDepthAt = (idx: number) => (1 - landNormAt(idx)) * 0.7 + (1 - edgeNormAt(idx)) * 0.3;
+
+  return { colorPositions, byPriority, waterDepthAt };
+}
+
+interface CellPos {
+  row: number;
+  col: number;
+  idx: number;
+}
+
+/** Re-assign over-limit dots to nearest available color respecting map semantics.
+ *  Uses priority scoring so limited colors are distributed evenly across the
+ *  entire map rather than row-by-row top-to-bottom. Land substitutes are ranked
+ *  by `metric`, so the replacement is the closest available color under it.
+ *  Outside map mode there is no water: every color keeps its dots inside solid
+ *  areas, gives up the ones on region edges, and may fall back to any palette color. */
+export function fixGridLimits(grid: Grid, metric: ColorMetric = 'hsl', mode: ConversionMode = 'map'): Grid {
+  const limits = new Map(config.colors.map((c) => [c.hex, c.quantity]));
+  const { colorPositions, byPriority, waterDepthAt } = limitContext(grid, mode);
+
   // Remaining budget per color
   const remaining = new Map<string, number>();
   for (const cc of config.colors) remaining.set(cc.hex, cc.quantity);
@@ -399,52 +741,16 @@ export function fixGridLimits(grid: Grid): Grid {
 
   const newGrid: Grid = grid.map((row) => [...row]);
 
-  const lightBlueHex = colorByName.get('light blue')!;
-  const turquoiseHex = colorByName.get('turquoise')!;
-  const darkBlueHex = colorByName.get('dark blue')!;
-
   for (const hex of overColors) {
-    const positions = colorPositions.get(hex)!;
     const limit = limits.get(hex) ?? 0;
-    const isWaterColor = WATER_HEXES.has(hex);
-
-    // Score each position — higher priority = more important to keep this color here
-    const scored = positions.map(pos => {
-      const landNorm = distToLand[pos.idx] < Infinity ? distToLand[pos.idx] / maxLandDist : 1;
-      const edgeNorm = distToEdge[pos.idx] / maxEdgeDist;
-      // Non-linear spatial jitter to break ties without diagonal artifacts
-      const jitter = hash2d(pos.row, pos.col) * 0.0001;
-      let priority: number;
-
-      if (isWaterColor) {
-        if (hex === lightBlueHex) {
-          priority = (1 - landNorm) + jitter;
-        } else if (hex === turquoiseHex) {
-          priority = (1 - landNorm) * 0.85 + edgeNorm * 0.15 + jitter;
-        } else if (hex === darkBlueHex) {
-          priority = (1 - Math.abs(landNorm - 0.35)) + jitter;
-        } else {
-          priority = landNorm * 0.7 + (1 - edgeNorm) * 0.3 + jitter;
-        }
-      } else {
-        // Land: non-linear 2D hash for organic distribution (no diagonal stripes)
-        priority = hash2d(pos.row, pos.col);
-      }
-      return { ...pos, priority };
-    });
-
-    // Sort descending — keep the highest-priority (most important) positions
-    scored.sort((a, b) => b.priority - a.priority);
+    const isWaterColor = mode === 'map' && WATER_HEXES.has(hex);
 
     // Excess = lowest-priority positions that need reassignment
-    const excess = scored.slice(limit);
+    const excess = byPriority(hex).slice(limit);
 
     if (isWaterColor) {
       for (const pos of excess) {
-        const landNorm = distToLand[pos.idx] < Infinity ? distToLand[pos.idx] / maxLandDist : 1;
-        const edgeNorm = distToEdge[pos.idx] / maxEdgeDist;
-        const t = (1 - landNorm) * 0.7 + (1 - edgeNorm) * 0.3;
-        const idealCell = pickWaterGradient(t, pos.col, pos.row, WATER_GRADIENT_WITH_BLACK, 0);
+        const idealCell = pickGradient(waterDepthAt(pos.idx), pos.col, pos.row, WATER_GRADIENT_WITH_BLACK, 0);
 
         // Build candidate list from the gradient (only non-null colored entries)
         const gradientHexes = WATER_GRADIENT_WITH_BLACK.filter((c): c is string => c !== null);
@@ -467,20 +773,20 @@ export function fixGridLimits(grid: Grid): Grid {
       }
     } else {
       // Land: reassign to nearest available land color
-      const [origR, origG, origB] = hexToRgb(hex);
-      const [origH, origS, origL] = rgbToHsl(origR, origG, origB);
-      const ranked = LAND_PALETTE
-        .filter(pc => pc.hex !== hex)
-        .map(pc => ({ hex: pc.hex, dist: hslDistance(origH, origS, origL, pc.h, pc.s, pc.l) }))
+      // Non-map modes may substitute any palette color, including empty (black)
+      const ranked = (mode === 'map'
+        ? LAND_PALETTE.map(pc => ({ cell: pc.hex as Cell, dist: paletteDistance(hex, pc, metric) }))
+        : FULL_PALETTE.map(pc => ({ cell: pc.cell, dist: paletteDistance(hex, pc, metric) })))
+        .filter(pc => pc.cell !== hex)
         .sort((a, b) => a.dist - b.dist);
 
       for (const pos of excess) {
         let assigned = false;
         for (const candidate of ranked) {
-          const rem = remaining.get(candidate.hex) ?? 0;
+          const rem = candidate.cell === null ? Infinity : remaining.get(candidate.cell) ?? 0;
           if (rem > 0) {
-            newGrid[pos.row][pos.col] = candidate.hex;
-            remaining.set(candidate.hex, rem - 1);
+            newGrid[pos.row][pos.col] = candidate.cell;
+            if (candidate.cell !== null) remaining.set(candidate.cell, rem - 1);
             assigned = true;
             break;
           }
@@ -493,6 +799,109 @@ export function fixGridLimits(grid: Grid): Grid {
   return newGrid;
 }
 
+// Colors a cell of `hex` may be swapped to. Empty is always allowed (it has no
+// limit), which keeps the optimal problem feasible; its distance makes it a last resort on land.
+function substitutesFor(hex: string, mode: ConversionMode) {
+  if (mode !== 'map') return FULL_PALETTE;
+  const group = WATER_HEXES.has(hex) ? WATER_HEXES : LAND_HEXES;
+  return FULL_PALETTE.filter((pc) => pc.cell === null || group.has(pc.cell));
+}
+
+/**
+ * Globally optimal limit fixing: a min-cost flow from the colors in use to the
+ * palette, capacity = piece quantity, cost = perceptual distance. Cells of one
+ * color are interchangeable cost-wise, so the flow runs over colors and cells
+ * are assigned afterwards by the same priorities as the greedy pass.
+ */
+export function solveGridLimits(grid: Grid, metric: ColorMetric = 'hsl', mode: ConversionMode = 'map'): Grid {
+  const { colorPositions, byPriority, waterDepthAt } = limitContext(grid, mode);
+  const limits = new Map(config.colors.map((c) => [c.hex, c.quantity]));
+  if ([...colorPositions].every(([hex, positions]) => positions.length <= (limits.get(hex) ?? 0))) return grid;
+
+  // Nodes: source, one per color in use, one per palette entry, sink
+  const used = [...colorPositions.keys()];
+  const totalCells = used.reduce((n, hex) => n + colorPositions.get(hex)!.length, 0);
+  const source = 0;
+  const paletteNode = (i: number) => 1 + used.length + i;
+  const sink = 1 + used.length + FULL_PALETTE.length;
+
+  const edges: FlowEdge[] = [];
+  const moves: { from: string; to: Cell; edge: number; dist: number }[] = [];
+  used.forEach((hex, i) => {
+    edges.push({ from: source, to: 1 + i, capacity: colorPositions.get(hex)!.length, cost: 0 });
+    const allowed = substitutesFor(hex, mode);
+    FULL_PALETTE.forEach((pc, j) => {
+      if (!allowed.includes(pc)) return;
+      const dist = pc.cell === hex ? 0 : paletteDistance(hex, pc, metric);
+      moves.push({ from: hex, to: pc.cell, edge: edges.length, dist });
+      edges.push({ from: 1 + i, to: paletteNode(j), capacity: totalCells, cost: dist });
+    });
+  });
+  FULL_PALETTE.forEach((pc, j) => {
+    const capacity = pc.cell === null ? totalCells : limits.get(pc.cell) ?? 0;
+    edges.push({ from: paletteNode(j), to: sink, capacity, cost: 0 });
+  });
+
+  const { edgeFlow } = minCostFlow(sink + 1, edges, source, sink);
+
+  const newGrid: Grid = grid.map((row) => [...row]);
+  for (const hex of used) {
+    const out = moves.filter((m) => m.from === hex && edgeFlow[m.edge] > 0);
+    const kept = out.find((m) => m.to === hex);
+    const excess = byPriority(hex).slice(kept ? edgeFlow[kept.edge] : 0);
+    if (excess.length === 0) continue;
+
+    const targets = out.filter((m) => m !== kept);
+    if (mode === 'map' && WATER_HEXES.has(hex)) {
+      // Lighter substitutes go to the shallowest cells, keeping the gradient's order
+      const order = (cell: Cell) => WATER_GRADIENT_WITH_BLACK.indexOf(cell);
+      targets.sort((a, b) => order(a.to) - order(b.to));
+      excess.sort((a, b) => waterDepthAt(a.idx) - waterDepthAt(b.idx));
+    } else {
+      // Closest substitutes go to the cells that most wanted to keep the color
+      targets.sort((a, b) => a.dist - b.dist);
+    }
+    let k = 0;
+    for (const target of targets) {
+      for (let n = 0; n < edgeFlow[target.edge]; n++) {
+        const pos = excess[k++];
+        newGrid[pos.row][pos.col] = target.to;
+      }
+    }
+  }
+  return newGrid;
+}
+
+/** Total perceptual error of the cells whose color changed between two grids. */
+export function gridLimitError(before: Grid, after: Grid, metric: ColorMetric = 'hsl'): number {
+  let error = 0;
+  for (let r = 0; r < before.length; r++) {
+    for (let c = 0; c < before[r].length; c++) {
+      const from = before[r][c];
+      const to = after[r][c];
+      if (from === to || from === null) continue;
+      error += paletteDistance(from, FULL_PALETTE.find((pc) => pc.cell === to)!, metric);
+    }
+  }
+  return error;
+}
+
+export interface LimitReport {
+  solver: LimitSolver;
+  error: number;
+  greedyError: number; // same as error when the greedy solver ran
+}
+
+/** Enforce piece limits with the selected solver, reporting the color error next to the greedy pass's. */
+export function applyGridLimits(grid: Grid, opts: RenderOptions): { grid: Grid; report: LimitReport } {
+  const { colorMetric: metric, conversionMode: mode, limitSolver: solver } = opts;
+  const greedy = fixGridLimits(grid, metric, mode);
+  const greedyError = gridLimitError(grid, greedy, metric);
+  if (solver === 'greedy') return { grid: greedy, report: { solver, error: greedyError, greedyError } };
+  const optimal = solveGridLimits(grid, metric, mode);
+  return { grid: optimal, report: { solver, error: gridLimitError(grid, optimal, metric), greedyError } };
+}
+
 export function imageDataToBase64(imageData: ImageData): string {
   const canvas = document.createElement('canvas');
   canvas.width = imageData.width;
@@ -518,6 +927,27 @@ export function base64ToImageData(dataUrl: string): Promise<ImageData> {
   });
 }
 
+export function imageDataToBlob(imageData: ImageData): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
+
+export async function blobToImageData(blob: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
 export function loadImageFile(file: File): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const img = new Image();
@@ -0,0 +1,106 @@
+import { generateId } from './storage';
+import type { Cell, EditorState, Grid, Layer } from './types';
+
+// The generated map layer — image re-conversion writes here, user layers stack on top
+export const BASE_LAYER_ID = 'base';
+
+export function createBaseLayer(grid: Grid): Layer {
+  return { id: BASE_LAYER_ID, name: 'Base map', kind: 'base', grid, visible: true, locked: false };
+}
+
+export function createUserLayer(width: number, height: number, name: string): Layer {
+  return {
+    id: generateId(),
+    name,
+    kind: 'user',
+    grid: Array.from({ length: height }, () => Array<Cell>(width).fill(null)),
+    visible: true,
+    locked: false,
+  };
+}
+
+export function getActiveLayer(state: EditorState): Layer | undefined {
+  return state.layers.find((l) => l.id === state.activeLayerId);
+}
+
+/** Crop or pad a grid to width × height, anchored at the top-left. */
+export function fitGrid(grid: Grid, width: number, height: number): Grid {
+  if (grid.length === height && (grid[0]?.length ?? 0) === width) return grid;
+  return Array.from({ length: height }, (_, r) =>
+    Array.from({ length: width }, (_, c) => grid[r]?.[c] ?? null),
+  );
+}
+
+/** Swap in a newly generated base grid, fitting the user layers to its dimensions. */
+export function replaceBaseGrid(layers: Layer[], grid: Grid, width: number, height: number): Layer[] {
+  return layers.map((l) =>
+    l.kind === 'base' ? { ...l, grid } : { ...l, grid: fitGrid(l.grid, width, height) },
+  );
+}
+
+/** Composite visible layers bottom-to-top; empty cells in a layer are transparent. */
+export function flattenLayers(layers: Layer[], width: number, height: number): Grid {
+  const visible = layers.filter((l) => l.visible);
+  if (visible.length === 1) return visible[0].grid;
+  const grid: Grid = Array.from({ length: height }, () => Array<Cell>(width).fill(null));
+  for (const layer of visible) {
+    for (let r = 0; r < height; r++) {
+      const row = layer.grid[r];
+      for (let c = 0; c < width; c++) {
+        if (row[c] !== null) grid[r][c] = row[c];
+      }
+    }
+  }
+  return grid;
+}
+
+/** Recomposite only the given rows of an existing flattened grid; other rows stay shared. */
+export function reflattenRows(flat: Grid, layers: Layer[], width: number, rows: Iterable<number>): Grid {
+  const visible = layers.filter((l) => l.visible);
+  if (visible.length === 1) return visible[0].grid;
+  const grid = flat.slice();
+  for (const r of rows) {
+    const row = Array<Cell>(width).fill(null);
+    for (const layer of visible) {
+      const src = layer.grid[r];
+      for (let c = 0; c < width; c++) {
+        if (src[c] !== null) row[c] = src[c];
+      }
+    }
+    grid[r] = row;
+  }
+  return grid;
+}
+
+/** Write a modified flattened grid back into the layers that produced it.
+ *  A changed color goes to the topmost visible layer showing that cell (or the
+ *  base layer when none does); a cleared cell is cleared in every visible layer. */
+export function distributeFlattened(layers: Layer[], width: number, height: number, target: Grid): Layer[] {
+  const current = flattenLayers(layers, width, height);
+  const grids = layers.map((l) => l.grid);
+  const copied = new Set<number>();
+  const write = (li: number, r: number, c: number, value: Cell) => {
+    if (grids[li][r][c] === value) return;
+    if (!copied.has(li)) {
+      grids[li] = grids[li].map((row) => [...row]);
+      copied.add(li);
+    }
+    grids[li][r][c] = value;
+  };
+  const baseIdx = layers.findIndex((l) => l.kind === 'base');
+
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      const value = target[r][c];
+      if (current[r][c] === value) continue;
+      if (value === null) {
+        layers.forEach((l, li) => { if (l.visible) write(li, r, c, null); });
+        continue;
+      }
+      let li = layers.length - 1;
+      while (li >= 0 && !(layers[li].visible && layers[li].grid[r][c] !== null)) li--;
+      write(li >= 0 ? li : baseIdx, r, c, value);
+    }
+  }
+  return layers.map((l, li) => (copied.has(li) ? { ...l, grid: grids[li] } : l));
+}
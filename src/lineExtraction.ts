@@ -0,0 +1,76 @@
+// Thin-feature detection for borders, rivers and roads. Box-averaging a
+// full-resolution map down to dots blurs 1–3 px lines into their surroundings,
+// so they are found first at source resolution and stamped onto the grid.
+
+// Minimum contrast (0–255) between a line pixel and its local background
+const DARK_CONTRAST = 40;
+const SATURATION_CONTRAST = 60;
+
+// 1D running min/max over a window of `radius` on each side
+function slide(src: Float32Array, w: number, h: number, radius: number, horizontal: boolean, max: boolean): Float32Array {
+  const out = new Float32Array(src.length);
+  const outer = horizontal ? h : w;
+  const inner = horizontal ? w : h;
+  for (let o = 0; o < outer; o++) {
+    for (let i = 0; i < inner; i++) {
+      let best = max ? -Infinity : Infinity;
+      const lo = Math.max(0, i - radius), hi = Math.min(inner - 1, i + radius);
+      for (let k = lo; k <= hi; k++) {
+        const v = src[horizontal ? o * w + k : k * w + o];
+        if (max ? v > best : v < best) best = v;
+      }
+      out[horizontal ? o * w + i : i * w + o] = best;
+    }
+  }
+  return out;
+}
+
+// Square-window dilation (max) or erosion (min)
+function morph(src: Float32Array, w: number, h: number, radius: number, max: boolean): Float32Array {
+  return slide(slide(src, w, h, radius, true, max), w, h, radius, false, max);
+}
+
+/**
+ * Mark source pixels that belong to thin features: darker than their
+ * surroundings (black top-hat on luminance) or more saturated than them
+ * (white top-hat on saturation), up to `maxWidth` pixels across.
+ */
+export function detectLinePixels(image: ImageData, maxWidth: number): Uint8Array {
+  const { width: w, height: h, data } = image;
+  const lum = new Float32Array(w * h);
+  const sat = new Float32Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    lum[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    sat[i] = Math.max(r, g, b) - Math.min(r, g, b);
+  }
+  // A window just wider than the line removes it from the background estimate
+  const radius = Math.ceil(maxWidth / 2);
+  const lumBackground = morph(morph(lum, w, h, radius, true), w, h, radius, false); // closing
+  const satBackground = morph(morph(sat, w, h, radius, false), w, h, radius, true); // opening
+
+  const lines = new Uint8Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    if (lumBackground[i] - lum[i] > DARK_CONTRAST || sat[i] - satBackground[i] > SATURATION_CONTRAST) lines[i] = 1;
+  }
+  return lines;
+}
+
+// Grid cells a line runs through: at least half a cell's width of line pixels
+export function lineCells(lines: Uint8Array, imgW: number, imgH: number, gridW: number, gridH: number): Uint8Array {
+  const cells = new Uint8Array(gridW * gridH);
+  for (let gy = 0; gy < gridH; gy++) {
+    const y0 = Math.floor((gy * imgH) / gridH);
+    const y1 = Math.max(y0 + 1, Math.floor(((gy + 1) * imgH) / gridH));
+    for (let gx = 0; gx < gridW; gx++) {
+      const x0 = Math.floor((gx * imgW) / gridW);
+      const x1 = Math.max(x0 + 1, Math.floor(((gx + 1) * imgW) / gridW));
+      let count = 0;
+      for (let y = y0; y < y1 && y < imgH; y++) {
+        for (let x = x0; x < x1 && x < imgW; x++) count += lines[y * imgW + x];
+      }
+      if (count > 0 && count >= Math.min(x1 - x0, y1 - y0) / 2) cells[gy * gridW + gx] = 1;
+    }
+  }
+  return cells;
+}
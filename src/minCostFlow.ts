@@ -0,0 +1,73 @@
+// Min-cost max-flow by successive shortest paths (Bellman–Ford/SPFA, so
+// residual edges may carry negative costs). Sized for small graphs such as
+// colors × palette, not cells × palette.
+
+export interface FlowEdge {
+  from: number;
+  to: number;
+  capacity: number;
+  cost: number;
+}
+
+export interface FlowResult {
+  flow: number;
+  cost: number;
+  edgeFlow: number[]; // flow on each input edge, same order
+}
+
+const EPS = 1e-9;
+
+export function minCostFlow(nodeCount: number, edges: FlowEdge[], source: number, sink: number): FlowResult {
+  // Residual graph: edge 2i is forward, 2i+1 its reverse
+  const to: number[] = [];
+  const cap: number[] = [];
+  const cost: number[] = [];
+  const adj: number[][] = Array.from({ length: nodeCount }, () => []);
+  for (const e of edges) {
+    adj[e.from].push(to.length);
+    to.push(e.to); cap.push(e.capacity); cost.push(e.cost);
+    adj[e.to].push(to.length);
+    to.push(e.from); cap.push(0); cost.push(-e.cost);
+  }
+
+  let flow = 0;
+  let totalCost = 0;
+  const dist = new Float64Array(nodeCount);
+  const prevEdge = new Int32Array(nodeCount);
+  const inQueue = new Uint8Array(nodeCount);
+
+  for (;;) {
+    dist.fill(Infinity);
+    prevEdge.fill(-1);
+    dist[source] = 0;
+    const queue = [source];
+    inQueue[source] = 1;
+    for (let qi = 0; qi < queue.length; qi++) {
+      const u = queue[qi];
+      inQueue[u] = 0;
+      for (const ei of adj[u]) {
+        if (cap[ei] <= 0) continue;
+        const v = to[ei];
+        const nd = dist[u] + cost[ei];
+        if (nd < dist[v] - EPS) {
+          dist[v] = nd;
+          prevEdge[v] = ei;
+          if (!inQueue[v]) { inQueue[v] = 1; queue.push(v); }
+        }
+      }
+    }
+    if (dist[sink] === Infinity) break;
+
+    // Bottleneck along the path, then push it
+    let push = Infinity;
+    for (let v = sink; v !== source; v = to[prevEdge[v] ^ 1]) push = Math.min(push, cap[prevEdge[v]]);
+    for (let v = sink; v !== source; v = to[prevEdge[v] ^ 1]) {
+      cap[prevEdge[v]] -= push;
+      cap[prevEdge[v] ^ 1] += push;
+    }
+    flow += push;
+    totalCost += push * dist[sink];
+  }
+
+  return { flow, cost: totalCost, edgeFlow: edges.map((_, i) => cap[2 * i + 1]) };
+}
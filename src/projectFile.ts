@@ -0,0 +1,439 @@
+// The .dotmap.json project format: its typed shape, validation that names the
+// exact offending field, and the migrations that bring older versions up to
+// the current one before validation runs.
+import type { ClassificationMask } from './classificationMask';
+import { COLOR_METRICS } from './colorDistance';
+import { config } from './config';
+import { gridPalette, packGrid, unpackGrid } from './gridEncoding';
+import { MAX_FRAME_ZOOM } from './imageFraming';
+import type { ImageFraming } from './imageFraming';
+import { CONVERSION_MODES, DEFAULT_RENDER_OPTIONS, LAND_COLORINGS, LAND_DITHERS, LIMIT_SOLVERS } from './imageToGrid';
+import type { RenderOptions } from './imageToGrid';
+import { BASE_LAYER_ID } from './layers';
+import { REGION_OPTIONS } from './renderRegions';
+import type { RenderRegion } from './renderRegions';
+import type { Cell, Grid, Layer } from './types';
+
+export const PROJECT_VERSION = 2;
+
+// How grids are written: 'plain' as rows of hex strings, 'packed' as
+// run-length packed palette indices (see gridEncoding.ts) against a top-level palette
+export type ProjectEncoding = 'plain' | 'packed';
+
+export const MAX_GRID_SIZE = 256; // matches the Grid Size inputs
+const MAX_RESOLUTION = Math.max(
+  config.fullPlate.width * config.basePlates.size[0],
+  config.fullPlate.height * config.basePlates.size[1],
+);
+
+export interface ProjectFile {
+  version: number;
+  name: string; // empty when the file has none
+  width: number;
+  height: number;
+  grid: Grid; // flattened composite of the visible layers
+  layers?: Layer[]; // only written when there are user layers
+  renderOptions?: RenderOptions;
+  limitPieces?: boolean;
+  resolution?: number;
+  showBasePlates?: boolean;
+  colors?: PaletteSnapshotEntry[]; // colors the grid uses, as the exporting palette defined them
+  source?: EmbeddedSource;
+}
+
+export interface PaletteSnapshotEntry {
+  name: string;
+  hex: string;
+  quantity: number; // pieces available in the exporting palette
+  used: number;     // dots of this color in the flattened grid
+}
+
+// The tab's imported image and what was drawn over it, so the file can be
+// re-rendered on a machine that never saw the original upload
+export interface EmbeddedSource {
+  image: string; // PNG data URL
+  heightmap?: string;
+  framing?: ImageFraming;
+  mask?: ClassificationMask;
+  regions?: RenderRegion[];
+}
+
+/** A file that can't be loaded; `path` points at the offending field, e.g. `grid[3][7]`. */
+export class ProjectFileError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'ProjectFileError';
+    this.path = path;
+  }
+}
+
+type Json = Record<string, unknown>;
+
+// MIGRATIONS[n] turns a version-n file into version n + 1. Adding a step goes
+// together with bumping PROJECT_VERSION; older files run through every later step.
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  // v2 added packed grids; every v1 file is plain
+  1: (data) => ({ ...data, encoding: 'plain' }),
+};
+
+// --- Field checks ---
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (value === null) return 'null';
+  if (typeof value === 'object') return 'an object';
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, path: string): Json {
+  if (!isObject(value)) throw new ProjectFileError(path, `expected an object, got ${describe(value)}`);
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new ProjectFileError(path, `expected an array, got ${describe(value)}`);
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new ProjectFileError(path, `expected a string, got ${describe(value)}`);
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') throw new ProjectFileError(path, `expected true or false, got ${describe(value)}`);
+  return value;
+}
+
+function expectInteger(value: unknown, path: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new ProjectFileError(path, `expected a whole number from ${min} to ${max}, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, path: string, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) {
+    throw new ProjectFileError(path, `expected one of ${allowed.map((a) => `"${a}"`).join(', ')}, got ${describe(value)}`);
+  }
+  return value as T;
+}
+
+function expectNumber(value: unknown, path: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new ProjectFileError(path, `expected a number from ${min} to ${max}, got ${describe(value)}`);
+  }
+  return value;
+}
+
+// Palette hexes by lowercase spelling, so hand-edited files may use either case
+const paletteHex = new Map(config.colors.map((c) => [c.hex.toLowerCase(), c.hex]));
+
+// Colors outside the active palette load as-is (uppercased) and are listed by
+// unknownColors, so the user can remap them before the grid reaches the editor
+function expectColor(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !/^#[0-9a-f]{6}$/i.test(value)) {
+    throw new ProjectFileError(path, `expected a hex color like "#1A2B3C", got ${describe(value)}`);
+  }
+  return paletteHex.get(value.toLowerCase()) ?? value.toUpperCase();
+}
+
+// Black is an empty cell in the editor, so it loads as one
+const BLACK_HEX = config.colors.find((c) => c.name === 'black')?.hex ?? '#000000';
+
+function expectCell(value: unknown, path: string): Cell {
+  if (value === null) return null;
+  const color = expectColor(value, path);
+  return color === BLACK_HEX ? null : color;
+}
+
+function expectGrid(value: unknown, path: string, width: number, height: number, palette: Cell[] | null): Grid {
+  if (palette) {
+    try {
+      return unpackGrid(expectString(value, path), palette, width, height);
+    } catch (err) {
+      if (err instanceof ProjectFileError) throw err;
+      throw new ProjectFileError(path, err instanceof Error ? err.message : String(err));
+    }
+  }
+  const rows = expectArray(value, path);
+  if (rows.length !== height) throw new ProjectFileError(path, `expected ${height} rows, got ${rows.length}`);
+  return rows.map((row, r) => {
+    const cells = expectArray(row, `${path}[${r}]`);
+    if (cells.length !== width) {
+      throw new ProjectFileError(`${path}[${r}]`, `expected ${width} cells, got ${cells.length}`);
+    }
+    return cells.map((cell, c) => expectCell(cell, `${path}[${r}][${c}]`));
+  });
+}
+
+function expectLayers(value: unknown, path: string, width: number, height: number, palette: Cell[] | null): Layer[] {
+  const ids = new Set<string>();
+  const layers = expectArray(value, path).map((item, i): Layer => {
+    const at = `${path}[${i}]`;
+    const layer = expectObject(item, at);
+    const id = expectString(layer.id, `${at}.id`);
+    if (ids.has(id)) throw new ProjectFileError(`${at}.id`, `duplicate layer id "${id}"`);
+    ids.add(id);
+    const kind = expectOneOf(layer.kind, `${at}.kind`, ['base', 'user'] as const);
+    // The editor assumes exactly one base layer, at the bottom
+    if ((i === 0) !== (kind === 'base')) {
+      throw new ProjectFileError(`${at}.kind`, i === 0 ? 'the bottom layer must be the base layer' : 'only the bottom layer can be the base layer');
+    }
+    if (kind === 'base' && id !== BASE_LAYER_ID) {
+      throw new ProjectFileError(`${at}.id`, `the base layer's id must be "${BASE_LAYER_ID}"`);
+    }
+    return {
+      id,
+      name: expectString(layer.name, `${at}.name`),
+      kind,
+      grid: expectGrid(layer.grid, `${at}.grid`, width, height, palette),
+      visible: expectBoolean(layer.visible, `${at}.visible`),
+      locked: expectBoolean(layer.locked, `${at}.locked`),
+    };
+  });
+  if (layers.length === 0) throw new ProjectFileError(path, 'expected at least the base layer');
+  return layers;
+}
+
+const percent = (value: unknown, path: string) => expectInteger(value, path, 0, 100);
+
+// Missing options take their defaults; unknown ones are dropped. Listing every
+// field keeps a new render option from compiling until it is validated here.
+function expectRenderOptions(value: unknown, path: string): RenderOptions {
+  const raw = expectObject(value, path);
+  const option = <K extends keyof RenderOptions>(key: K, check: (v: unknown, p: string) => RenderOptions[K]) =>
+    raw[key] === undefined ? DEFAULT_RENDER_OPTIONS[key] : check(raw[key], `${path}.${key}`);
+  return {
+    conversionMode: option('conversionMode', (v, p) => expectOneOf(v, p, CONVERSION_MODES.map((m) => m.mode))),
+    waterDepth: option('waterDepth', percent),
+    includeBlack: option('includeBlack', expectBoolean),
+    colorVibrancy: option('colorVibrancy', percent),
+    coastlineWidth: option('coastlineWidth', percent),
+    waterSensitivity: option('waterSensitivity', percent),
+    colorMetric: option('colorMetric', (v, p) => expectOneOf(v, p, COLOR_METRICS.map((m) => m.metric))),
+    landDither: option('landDither', (v, p) => expectOneOf(v, p, LAND_DITHERS.map((d) => d.dither))),
+    ditherStrength: option('ditherStrength', percent),
+    limitSolver: option('limitSolver', (v, p) => expectOneOf(v, p, LIMIT_SOLVERS.map((s) => s.solver))),
+    preserveLines: option('preserveLines', expectBoolean),
+    lineColor: option('lineColor', expectCell),
+    lineWidth: option('lineWidth', (v, p) => expectInteger(v, p, 1, 10)),
+    linesOnLandOnly: option('linesOnLandOnly', expectBoolean),
+    landColoring: option('landColoring', (v, p) => expectOneOf(v, p, LAND_COLORINGS.map((c) => c.coloring))),
+    elevationBands: option('elevationBands', (v, p) => {
+      const bands = expectArray(v, p);
+      if (bands.length === 0) throw new ProjectFileError(p, 'expected at least one color');
+      return bands.map((band, i) => expectColor(band, `${p}[${i}]`));
+    }),
+  };
+}
+
+// One character per cell, row-major, each one of `allowed`
+function expectCellString(value: unknown, path: string, width: number, height: number, allowed: string): string {
+  const cells = expectString(value, path);
+  if (cells.length !== width * height) {
+    throw new ProjectFileError(path, `expected ${width * height} characters for ${width} × ${height} cells, got ${cells.length}`);
+  }
+  const bad = [...cells].find((ch) => !allowed.includes(ch));
+  if (bad !== undefined) throw new ProjectFileError(path, `unexpected character "${bad}", expected one of "${allowed}"`);
+  return cells;
+}
+
+function expectImage(value: unknown, path: string): string {
+  const url = expectString(value, path);
+  if (!url.startsWith('data:image/')) throw new ProjectFileError(path, 'expected an image data URL');
+  return url;
+}
+
+function expectFraming(value: unknown, path: string): ImageFraming {
+  const raw = expectObject(value, path);
+  return {
+    orientation: expectOneOf(raw.orientation, `${path}.orientation`, ['landscape', 'portrait'] as const),
+    fit: expectOneOf(raw.fit, `${path}.fit`, ['fill', 'letterbox', 'stretch'] as const),
+    zoom: expectNumber(raw.zoom, `${path}.zoom`, 1, MAX_FRAME_ZOOM),
+    centerX: expectNumber(raw.centerX, `${path}.centerX`, 0, 1),
+    centerY: expectNumber(raw.centerY, `${path}.centerY`, 0, 1),
+  };
+}
+
+function expectMask(value: unknown, path: string): ClassificationMask {
+  const raw = expectObject(value, path);
+  const width = expectInteger(raw.width, `${path}.width`, 1, MAX_GRID_SIZE);
+  const height = expectInteger(raw.height, `${path}.height`, 1, MAX_GRID_SIZE);
+  return { width, height, data: expectCellString(raw.data, `${path}.data`, width, height, '.wl') };
+}
+
+const regionOptionKeys = REGION_OPTIONS.map((o) => o.key);
+
+function expectRegions(value: unknown, path: string): RenderRegion[] {
+  return expectArray(value, path).map((item, i) => {
+    const at = `${path}[${i}]`;
+    const raw = expectObject(item, at);
+    const width = expectInteger(raw.width, `${at}.width`, 1, MAX_GRID_SIZE);
+    const height = expectInteger(raw.height, `${at}.height`, 1, MAX_GRID_SIZE);
+    const overrides: RenderRegion['overrides'] = {};
+    for (const [key, v] of Object.entries(expectObject(raw.overrides, `${at}.overrides`))) {
+      overrides[expectOneOf(key, `${at}.overrides`, regionOptionKeys)] = percent(v, `${at}.overrides.${key}`);
+    }
+    return {
+      id: expectString(raw.id, `${at}.id`),
+      name: expectString(raw.name, `${at}.name`),
+      width,
+      height,
+      cells: expectCellString(raw.cells, `${at}.cells`, width, height, '01'),
+      overrides,
+      feather: expectInteger(raw.feather, `${at}.feather`, 0, 12),
+    };
+  });
+}
+
+function expectSource(value: unknown, path: string): EmbeddedSource {
+  const raw = expectObject(value, path);
+  const source: EmbeddedSource = { image: expectImage(raw.image, `${path}.image`) };
+  if (raw.heightmap !== undefined) source.heightmap = expectImage(raw.heightmap, `${path}.heightmap`);
+  if (raw.framing !== undefined) source.framing = expectFraming(raw.framing, `${path}.framing`);
+  if (raw.mask !== undefined) source.mask = expectMask(raw.mask, `${path}.mask`);
+  if (raw.regions !== undefined) source.regions = expectRegions(raw.regions, `${path}.regions`);
+  return source;
+}
+
+function expectSnapshot(value: unknown, path: string): PaletteSnapshotEntry[] {
+  return expectArray(value, path).map((item, i) => {
+    const at = `${path}[${i}]`;
+    const raw = expectObject(item, at);
+    return {
+      name: expectString(raw.name, `${at}.name`),
+      hex: expectColor(raw.hex, `${at}.hex`),
+      quantity: expectInteger(raw.quantity, `${at}.quantity`, 0, Number.MAX_SAFE_INTEGER),
+      used: expectInteger(raw.used, `${at}.used`, 0, Number.MAX_SAFE_INTEGER),
+    };
+  });
+}
+
+// --- Loading ---
+
+function migrate(data: Json): Json {
+  // Files are version 1 when the field is missing — it was written but never read
+  let version = data.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError('version', `expected a positive whole number, got ${describe(version)}`);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError('version', `the file is version ${version}, but this Dotmaps reads up to version ${PROJECT_VERSION}`);
+  }
+  for (; version < PROJECT_VERSION; version++) data = MIGRATIONS[version](data);
+  return { ...data, version };
+}
+
+/** Parse, migrate and validate a .dotmap.json file; throws ProjectFileError. */
+export function parseProjectFile(text: string): ProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new ProjectFileError('', `not valid JSON (${err instanceof Error ? err.message : String(err)})`);
+  }
+  const data = migrate(expectObject(raw, ''));
+
+  const width = expectInteger(data.width, 'width', 1, MAX_GRID_SIZE);
+  const height = expectInteger(data.height, 'height', 1, MAX_GRID_SIZE);
+  const encoding = expectOneOf(data.encoding, 'encoding', ['plain', 'packed'] as const);
+  const palette = encoding === 'packed'
+    ? expectArray(data.palette, 'palette').map((cell, i) => expectCell(cell, `palette[${i}]`))
+    : null;
+  const file: ProjectFile = {
+    version: PROJECT_VERSION,
+    name: data.name === undefined ? '' : expectString(data.name, 'name'),
+    width,
+    height,
+    grid: expectGrid(data.grid, 'grid', width, height, palette),
+  };
+  if (data.layers !== undefined) file.layers = expectLayers(data.layers, 'layers', width, height, palette);
+  if (data.renderOptions !== undefined) file.renderOptions = expectRenderOptions(data.renderOptions, 'renderOptions');
+  if (data.limitPieces !== undefined) file.limitPieces = expectBoolean(data.limitPieces, 'limitPieces');
+  if (data.resolution !== undefined) file.resolution = expectInteger(data.resolution, 'resolution', 4, MAX_RESOLUTION);
+  if (data.showBasePlates !== undefined) file.showBasePlates = expectBoolean(data.showBasePlates, 'showBasePlates');
+  if (data.colors !== undefined) file.colors = expectSnapshot(data.colors, 'colors');
+  if (data.source !== undefined) file.source = expectSource(data.source, 'source');
+  return file;
+}
+
+// --- Palette differences ---
+
+/** Colors the file uses that the active palette doesn't have. */
+export function unknownColors(file: ProjectFile): string[] {
+  const unknown = new Set<string>();
+  const check = (cell: Cell) => {
+    if (cell !== null && !paletteHex.has(cell.toLowerCase())) unknown.add(cell);
+  };
+  for (const grid of [file.grid, ...(file.layers ?? []).map((layer) => layer.grid)]) {
+    for (const row of grid) row.forEach(check);
+  }
+  if (file.renderOptions) {
+    check(file.renderOptions.lineColor);
+    file.renderOptions.elevationBands.forEach(check);
+  }
+  return [...unknown];
+}
+
+/** Replace colors throughout the grids and the color-valued render options. */
+export function remapColors(file: ProjectFile, mapping: Map<string, Cell>): ProjectFile {
+  const remap = (cell: Cell): Cell => (cell !== null && mapping.has(cell) ? mapping.get(cell)! : cell);
+  const remapGrid = (grid: Grid) => grid.map((row) => row.map(remap));
+  const result: ProjectFile = {
+    ...file,
+    grid: remapGrid(file.grid),
+    layers: file.layers?.map((layer) => ({ ...layer, grid: remapGrid(layer.grid) })),
+  };
+  if (file.renderOptions) {
+    // A band mapped to empty is dropped; elevation coloring needs at least one
+    const bands = file.renderOptions.elevationBands.map(remap).filter((band): band is string => band !== null);
+    result.renderOptions = {
+      ...file.renderOptions,
+      lineColor: remap(file.renderOptions.lineColor),
+      elevationBands: bands.length > 0 ? bands : DEFAULT_RENDER_OPTIONS.elevationBands,
+    };
+  }
+  return result;
+}
+
+/** Palette entries for the colors a grid uses, most used first. */
+export function paletteSnapshot(grid: Grid): PaletteSnapshotEntry[] {
+  const used = new Map<string, number>();
+  for (const row of grid) {
+    for (const cell of row) {
+      if (cell !== null) used.set(cell, (used.get(cell) ?? 0) + 1);
+    }
+  }
+  return config.colors
+    .filter((c) => used.has(c.hex))
+    .map((c) => ({ name: c.name, hex: c.hex, quantity: c.quantity, used: used.get(c.hex)! }))
+    .sort((a, b) => b.used - a.used);
+}
+
+// Arrays of colors (grid rows, elevation bands) that JSON.stringify spread over one line per entry
+const COLOR_ARRAY = /\[\n\s+((?:"#[0-9A-Fa-f]{6}"|null)(?:,\n\s+(?:"#[0-9A-Fa-f]{6}"|null))*)\n\s+\]/g;
+
+export function serializeProjectFile(file: Omit<ProjectFile, 'version'>, encoding: ProjectEncoding): string {
+  if (encoding === 'plain') {
+    const json = JSON.stringify({ version: PROJECT_VERSION, encoding, ...file }, null, 2);
+    // One grid row per line keeps the file readable and diffable
+    return json.replace(COLOR_ARRAY, (_, items: string) => `[${items.replace(/,\n\s+/g, ', ')}]`);
+  }
+  const palette = gridPalette([file.grid, ...(file.layers ?? []).map((layer) => layer.grid)]);
+  return JSON.stringify({
+    version: PROJECT_VERSION,
+    encoding,
+    ...file,
+    palette,
+    grid: packGrid(file.grid, palette),
+    layers: file.layers?.map((layer) => ({ ...layer, grid: packGrid(layer.grid, palette) })),
+  }, null, 2);
+}
@@ -1,29 +1,205 @@
-import type { EditorState, EditorAction, Grid, UndoableState } from './types';
+import type {
+  Cell, Clipboard, EditorState, EditorAction, Grid, HistoryEntry, Layer, SelectionMode, Transform, UndoableState,
+} from './types';
 import { config } from './config';
+import { isWaterCell } from './colors';
+import { applyEntry, diffStates } from './history';
+import { rasterizeShape } from './shapes';
+import { generateId } from './storage';
+import {
+  BASE_LAYER_ID, createBaseLayer, createUserLayer, distributeFlattened, flattenLayers, getActiveLayer, reflattenRows,
+  replaceBaseGrid,
+} from './layers';
 
 const MAX_UNDO = 100;
 const BLACK_HEX = config.colors.find(c => c.name === 'black')?.hex ?? '#000000';
 
 // Actions that modify the grid and should be undoable
 const UNDOABLE_ACTIONS = new Set([
-  'PAINT', 'ERASE', 'RECOLOR_SELECTION', 'DELETE_SELECTION',
-  'RESIZE', 'LOAD_GRID', 'ROTATE_GRID',
+  'PAINT', 'ERASE', 'FILL', 'DRAW_SHAPE', 'RECOLOR_SELECTION', 'DELETE_SELECTION', 'REPLACE_COLORS',
+  'COMMIT_FLOATING', 'RESIZE', 'LOAD_GRID', 'ROTATE_GRID', 'FLIP_GRID', 'TRANSFORM_SELECTION',
+  'SET_BASE_GRID', 'APPLY_FLATTENED', 'ADD_LAYER', 'DELETE_LAYER', 'SET_LAYER_VISIBLE', 'MOVE_LAYER',
+  'FLATTEN_LAYERS',
 ]);
 
+// Actions that edit the active layer's cells
+const LAYER_EDIT_ACTIONS = new Set([
+  'PAINT', 'ERASE', 'FILL', 'DRAW_SHAPE', 'RECOLOR_SELECTION', 'DELETE_SELECTION', 'REPLACE_COLORS',
+  'LIFT_SELECTION', 'COMMIT_FLOATING', 'TRANSFORM_SELECTION',
+]);
+
+// Actions that reshape every layer at once
+const WHOLE_GRID_ACTIONS = new Set(['RESIZE', 'ROTATE_GRID', 'FLIP_GRID']);
+
 export function createGrid(width: number, height: number): Grid {
   return Array.from({ length: height }, () => Array(width).fill(null));
 }
 
-export function createInitialState(width = 48, height = 48, grid?: Grid): UndoableState {
+export function createInitialState(width = 48, height = 48, grid?: Grid, layers?: Layer[]): UndoableState {
+  const stack = layers ?? [createBaseLayer(grid ?? createGrid(width, height))];
   const present: EditorState = {
-    grid: grid ?? createGrid(width, height),
+    grid: flattenLayers(stack, width, height),
+    layers: stack,
+    activeLayerId: BASE_LAYER_ID,
     width,
     height,
     activeColor: '',
     activeTool: 'hand',
+    shapeFilled: false,
+    wandOptions: { contiguous: true, byGroup: false },
     selection: { cells: new Set() },
+    floating: null,
+  };
+  return { present, past: [], future: [], checkpoints: [] };
+}
+
+/** Capture the colored cells of a selection relative to its bounding box.
+ *  Empty cells are left out so pasting never punches holes into the target. */
+export function extractClipboard(grid: Grid, cells: Set<string>): Clipboard | null {
+  if (cells.size === 0) return null;
+  let minR = Infinity, minC = Infinity, maxR = -Infinity, maxC = -Infinity;
+  const positions: [number, number][] = [];
+  for (const key of cells) {
+    const [r, c] = key.split(',').map(Number);
+    positions.push([r, c]);
+    minR = Math.min(minR, r); maxR = Math.max(maxR, r);
+    minC = Math.min(minC, c); maxC = Math.max(maxC, c);
+  }
+  const clipCells: Clipboard['cells'] = [];
+  for (const [r, c] of positions) {
+    const color = grid[r]?.[c];
+    if (color) clipCells.push({ dRow: r - minR, dCol: c - minC, color });
+  }
+  return {
+    cells: clipCells,
+    width: maxC - minC + 1,
+    height: maxR - minR + 1,
+    originRow: minR,
+    originCol: minC,
   };
-  return { present, past: [], future: [] };
+}
+
+// Copy-on-write cell updates: only rows that actually change are copied, so
+// untouched rows stay shared with the previous grid (and with undo history)
+function setCells(grid: Grid, writes: Iterable<[number, number, Cell]>): Grid {
+  let next: Grid | null = null;
+  const copied = new Set<number>();
+  for (const [r, c, value] of writes) {
+    if ((next ?? grid)[r][c] === value) continue;
+    if (!next) next = grid.slice();
+    if (!copied.has(r)) {
+      next[r] = next[r].slice();
+      copied.add(r);
+    }
+    next[r][c] = value;
+  }
+  return next ?? grid;
+}
+
+// 4-connected region of cells around (row, col) whose color satisfies `matches`
+function floodRegion(
+  grid: Grid,
+  width: number,
+  height: number,
+  row: number,
+  col: number,
+  matches: (cell: Cell) => boolean,
+): [number, number][] {
+  const visited = new Uint8Array(width * height);
+  const region: [number, number][] = [];
+  const stack: [number, number][] = [[row, col]];
+  visited[row * width + col] = 1;
+  while (stack.length > 0) {
+    const [r, c] = stack.pop()!;
+    region.push([r, c]);
+    const neighbors: [number, number][] = [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]];
+    for (const [nr, nc] of neighbors) {
+      if (nr < 0 || nr >= height || nc < 0 || nc >= width) continue;
+      if (visited[nr * width + nc] || !matches(grid[nr][nc])) continue;
+      visited[nr * width + nc] = 1;
+      stack.push([nr, nc]);
+    }
+  }
+  return region;
+}
+
+// Where (r, c) lands inside an h×w box after the transform (rotations swap the box to w×h)
+function transformCell(r: number, c: number, h: number, w: number, transform: Transform): [number, number] {
+  switch (transform) {
+    case 'cw': return [c, h - 1 - r];
+    case 'ccw': return [w - 1 - c, r];
+    case 'flip-h': return [r, w - 1 - c];
+    case 'flip-v': return [h - 1 - r, c];
+  }
+}
+
+// Transform a whole grid, carrying the selection along with its cells
+function transformGrid(state: EditorState, transform: Transform): EditorState {
+  const { width: oldW, height: oldH, grid: oldGrid } = state;
+  const swap = transform === 'cw' || transform === 'ccw';
+  const newW = swap ? oldH : oldW;
+  const newH = swap ? oldW : oldH;
+  const grid = createGrid(newW, newH);
+  for (let r = 0; r < oldH; r++) {
+    for (let c = 0; c < oldW; c++) {
+      const [nr, nc] = transformCell(r, c, oldH, oldW, transform);
+      grid[nr][nc] = oldGrid[r][c];
+    }
+  }
+  const cells = new Set<string>();
+  for (const key of state.selection.cells) {
+    const [r, c] = key.split(',').map(Number);
+    const [nr, nc] = transformCell(r, c, oldH, oldW, transform);
+    cells.add(`${nr},${nc}`);
+  }
+  return { ...state, grid, width: newW, height: newH, selection: { cells }, floating: null };
+}
+
+function combineSelection(current: Set<string>, incoming: Set<string>, mode: SelectionMode): Set<string> {
+  switch (mode) {
+    case 'replace':
+      return incoming;
+    case 'add':
+      return new Set([...current, ...incoming]);
+    case 'subtract':
+      return new Set([...current].filter((key) => !incoming.has(key)));
+    case 'intersect':
+      return new Set([...current].filter((key) => incoming.has(key)));
+  }
+}
+
+// Cells whose centers fall inside the lasso polygon (even-odd rule), plus the path itself
+function lassoCells(points: { row: number; col: number }[], width: number, height: number): Set<string> {
+  const cells = new Set<string>();
+  if (points.length === 0) return cells;
+  const inBounds = (r: number, c: number) => r >= 0 && r < height && c >= 0 && c < width;
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    for (const [r, c] of rasterizeShape('line', a, b, false)) {
+      if (inBounds(r, c)) cells.add(`${r},${c}`);
+    }
+  }
+
+  const minR = Math.max(0, Math.min(...points.map((p) => p.row)));
+  const maxR = Math.min(height - 1, Math.max(...points.map((p) => p.row)));
+  const minC = Math.max(0, Math.min(...points.map((p) => p.col)));
+  const maxC = Math.min(width - 1, Math.max(...points.map((p) => p.col)));
+  for (let r = minR; r <= maxR; r++) {
+    for (let c = minC; c <= maxC; c++) {
+      let inside = false;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const pi = points[i], pj = points[j];
+        if ((pi.row > r) !== (pj.row > r) &&
+            c < ((pj.col - pi.col) * (r - pi.row)) / (pj.row - pi.row) + pi.col) {
+          inside = !inside;
+        }
+      }
+      if (inside) cells.add(`${r},${c}`);
+    }
+  }
+  return cells;
 }
 
 function coreReducer(state: EditorState, action: EditorAction): EditorState {
@@ -34,48 +210,115 @@ function coreReducer(state: EditorState, action: EditorAction): EditorState {
       // Painting with black = erasing (black is absence of dot)
       const value = color === BLACK_HEX ? null : color;
       if (state.grid[row][col] === value) return state;
-      const grid = state.grid.map((r, ri) =>
-        ri === row ? r.map((c, ci) => (ci === col ? value : c)) : r
-      );
-      return { ...state, grid };
+      return { ...state, grid: setCells(state.grid, [[row, col, value]]) };
     }
     case 'ERASE': {
       const { row, col } = action;
       if (row < 0 || row >= state.height || col < 0 || col >= state.width) return state;
       if (state.grid[row][col] === null) return state;
-      const grid = state.grid.map((r, ri) =>
-        ri === row ? r.map((c, ci) => (ci === col ? null : c)) : r
-      );
+      return { ...state, grid: setCells(state.grid, [[row, col, null]]) };
+    }
+    case 'FILL': {
+      const { row, col, color } = action;
+      if (row < 0 || row >= state.height || col < 0 || col >= state.width) return state;
+      // Filling with black = erasing, same as PAINT
+      const value = color === BLACK_HEX ? null : color;
+      const target = state.grid[row][col];
+      if (target === value) return state;
+      let cells: [number, number][];
+      if (action.global) {
+        // Replace every cell of the clicked color, connected or not
+        cells = [];
+        for (let r = 0; r < state.height; r++) {
+          for (let c = 0; c < state.width; c++) {
+            if (state.grid[r][c] === target) cells.push([r, c]);
+          }
+        }
+      } else {
+        cells = floodRegion(state.grid, state.width, state.height, row, col, (cell) => cell === target);
+      }
+      const grid = setCells(state.grid, cells.map(([r, c]): [number, number, Cell] => [r, c, value]));
       return { ...state, grid };
     }
+    case 'DRAW_SHAPE': {
+      const { shape, startRow, startCol, endRow, endCol, color, filled } = action;
+      const value = color === BLACK_HEX ? null : color;
+      const cells = rasterizeShape(shape, { row: startRow, col: startCol }, { row: endRow, col: endCol }, filled)
+        .filter(([r, c]) => r >= 0 && r < state.height && c >= 0 && c < state.width);
+      const grid = setCells(state.grid, cells.map(([r, c]): [number, number, Cell] => [r, c, value]));
+      return grid === state.grid ? state : { ...state, grid };
+    }
     case 'SET_COLOR':
       return { ...state, activeColor: action.color };
     case 'SET_TOOL':
       return { ...state, activeTool: action.tool, selection: { cells: new Set() } };
+    case 'SET_SHAPE_FILLED':
+      return { ...state, shapeFilled: action.filled };
+    case 'SET_WAND_OPTIONS':
+      return { ...state, wandOptions: { ...state.wandOptions, ...action.options } };
     case 'SELECT_CELL': {
       const key = `${action.row},${action.col}`;
-      const cells = action.additive ? new Set(state.selection.cells) : new Set<string>();
-      if (cells.has(key)) {
+      // Adding a single cell that is already selected toggles it off
+      if (action.mode === 'add' && state.selection.cells.has(key)) {
+        const cells = new Set(state.selection.cells);
         cells.delete(key);
-      } else {
-        cells.add(key);
+        return { ...state, selection: { cells } };
       }
+      const cells = combineSelection(state.selection.cells, new Set([key]), action.mode);
       return { ...state, selection: { cells } };
     }
     case 'SELECT_RECT': {
-      const { startRow, startCol, endRow, endCol, additive } = action;
+      const { startRow, startCol, endRow, endCol, mode } = action;
       const minR = Math.min(startRow, endRow);
       const maxR = Math.max(startRow, endRow);
       const minC = Math.min(startCol, endCol);
       const maxC = Math.max(startCol, endCol);
-      const cells = additive ? new Set(state.selection.cells) : new Set<string>();
+      const rect = new Set<string>();
       for (let r = minR; r <= maxR; r++) {
         for (let c = minC; c <= maxC; c++) {
-          cells.add(`${r},${c}`);
+          rect.add(`${r},${c}`);
+        }
+      }
+      return { ...state, selection: { cells: combineSelection(state.selection.cells, rect, mode) } };
+    }
+    case 'SELECT_WAND': {
+      const { row, col, mode } = action;
+      if (row < 0 || row >= state.height || col < 0 || col >= state.width) return state;
+      const target = state.grid[row][col];
+      const targetIsWater = isWaterCell(target);
+      const matches = state.wandOptions.byGroup
+        ? (cell: Cell) => isWaterCell(cell) === targetIsWater
+        : (cell: Cell) => cell === target;
+      const region = new Set<string>();
+      if (state.wandOptions.contiguous) {
+        for (const [r, c] of floodRegion(state.grid, state.width, state.height, row, col, matches)) {
+          region.add(`${r},${c}`);
+        }
+      } else {
+        for (let r = 0; r < state.height; r++) {
+          for (let c = 0; c < state.width; c++) {
+            if (matches(state.grid[r][c])) region.add(`${r},${c}`);
+          }
+        }
+      }
+      return { ...state, selection: { cells: combineSelection(state.selection.cells, region, mode) } };
+    }
+    case 'SELECT_LASSO': {
+      const region = lassoCells(action.points, state.width, state.height);
+      return { ...state, selection: { cells: combineSelection(state.selection.cells, region, action.mode) } };
+    }
+    case 'INVERT_SELECTION': {
+      const cells = new Set<string>();
+      for (let r = 0; r < state.height; r++) {
+        for (let c = 0; c < state.width; c++) {
+          const key = `${r},${c}`;
+          if (!state.selection.cells.has(key)) cells.add(key);
         }
       }
       return { ...state, selection: { cells } };
     }
+    case 'SET_SELECTION':
+      return { ...state, selection: { cells: new Set(action.cells) } };
     case 'CLEAR_SELECTION':
       return { ...state, selection: { cells: new Set() } };
     case 'RECOLOR_SELECTION': {
@@ -90,6 +333,78 @@ function coreReducer(state: EditorState, action: EditorAction): EditorState {
       );
       return { ...state, grid, selection: { cells: new Set() } };
     }
+    case 'REPLACE_COLORS': {
+      // All pairs apply at once, so A → B together with B → A swaps the two colors
+      const targets = new Map(action.mapping.map(({ from, to }) => [from, to]));
+      const limit = action.selectionOnly ? state.selection.cells : null;
+      const writes: [number, number, Cell][] = [];
+      for (let r = 0; r < state.height; r++) {
+        for (let c = 0; c < state.width; c++) {
+          const to = targets.get(state.grid[r][c]);
+          if (to === undefined || (limit && !limit.has(`${r},${c}`))) continue;
+          writes.push([r, c, to]);
+        }
+      }
+      const grid = setCells(state.grid, writes);
+      return grid === state.grid ? state : { ...state, grid };
+    }
+    case 'PASTE': {
+      const { clipboard } = action;
+      // Paste at the original position, pulled back inside the grid if needed
+      const row = Math.max(0, Math.min(clipboard.originRow, state.height - clipboard.height));
+      const col = Math.max(0, Math.min(clipboard.originCol, state.width - clipboard.width));
+      return {
+        ...state,
+        floating: { clipboard, row, col, liftedFrom: new Set() },
+        selection: { cells: new Set() },
+      };
+    }
+    case 'LIFT_SELECTION': {
+      const clipboard = extractClipboard(state.grid, state.selection.cells);
+      if (!clipboard) return state;
+      return {
+        ...state,
+        floating: {
+          clipboard,
+          row: clipboard.originRow,
+          col: clipboard.originCol,
+          liftedFrom: new Set(state.selection.cells),
+        },
+        selection: { cells: new Set() },
+      };
+    }
+    case 'MOVE_FLOATING': {
+      const { floating } = state;
+      if (!floating) return state;
+      // Keep at least one row/column of the layer over the grid
+      const { width: fw, height: fh } = floating.clipboard;
+      const row = Math.max(1 - fh, Math.min(state.height - 1, floating.row + action.dRow));
+      const col = Math.max(1 - fw, Math.min(state.width - 1, floating.col + action.dCol));
+      if (row === floating.row && col === floating.col) return state;
+      return { ...state, floating: { ...floating, row, col } };
+    }
+    case 'COMMIT_FLOATING': {
+      const { floating } = state;
+      if (!floating) return state;
+      const writes: [number, number, Cell][] = [];
+      for (const key of floating.liftedFrom) {
+        const [r, c] = key.split(',').map(Number);
+        writes.push([r, c, null]);
+      }
+      // Leave the pasted cells selected so they can be recolored or lifted again
+      const cells = new Set<string>();
+      for (const { dRow, dCol, color } of floating.clipboard.cells) {
+        const r = floating.row + dRow;
+        const c = floating.col + dCol;
+        if (r < 0 || r >= state.height || c < 0 || c >= state.width) continue;
+        writes.push([r, c, color]);
+        cells.add(`${r},${c}`);
+      }
+      return { ...state, grid: setCells(state.grid, writes), floating: null, selection: { cells } };
+    }
+    case 'CANCEL_FLOATING':
+      if (!state.floating) return state;
+      return { ...state, floating: null };
     case 'RESIZE': {
       const { width, height } = action;
       const grid = createGrid(width, height);
@@ -98,88 +413,236 @@ function coreReducer(state: EditorState, action: EditorAction): EditorState {
           grid[r][c] = state.grid[r][c];
         }
       }
-      return { ...state, grid, width, height, selection: { cells: new Set() } };
+      return { ...state, grid, width, height, selection: { cells: new Set() }, floating: null };
     }
-    case 'LOAD_GRID':
+    case 'LOAD_GRID': {
+      const layers = action.layers ?? [createBaseLayer(action.grid)];
       return {
         ...state,
-        grid: action.grid,
+        grid: flattenLayers(layers, action.width, action.height),
+        layers,
+        activeLayerId: BASE_LAYER_ID,
         width: action.width,
         height: action.height,
         selection: { cells: new Set() },
+        floating: null,
       };
-    case 'ROTATE_GRID': {
-      const { width: oldW, height: oldH, grid: oldGrid } = state;
-      const newW = oldH;
-      const newH = oldW;
-      const grid = createGrid(newW, newH);
-      for (let r = 0; r < oldH; r++) {
-        for (let c = 0; c < oldW; c++) {
-          if (action.direction === 'cw') {
-            grid[c][oldH - 1 - r] = oldGrid[r][c];
-          } else {
-            grid[oldW - 1 - c][r] = oldGrid[r][c];
-          }
-        }
+    }
+    case 'ROTATE_GRID':
+      return transformGrid(state, action.direction);
+    case 'FLIP_GRID':
+      return transformGrid(state, action.axis === 'horizontal' ? 'flip-h' : 'flip-v');
+    case 'TRANSFORM_SELECTION': {
+      const { cells: selected } = state.selection;
+      if (selected.size === 0) return state;
+      const positions = [...selected].map((key) => key.split(',').map(Number) as [number, number]);
+      const minR = Math.min(...positions.map(([r]) => r));
+      const maxR = Math.max(...positions.map(([r]) => r));
+      const minC = Math.min(...positions.map(([, c]) => c));
+      const maxC = Math.max(...positions.map(([, c]) => c));
+      const boxH = maxR - minR + 1;
+      const boxW = maxC - minC + 1;
+      // Rotations pivot around the box center, so the rotated box keeps the same center,
+      // shifted back inside the grid where it would stick out. A selection whose rotated
+      // box can't fit anywhere is left alone rather than losing cells.
+      const swap = action.transform === 'cw' || action.transform === 'ccw';
+      const outH = swap ? boxW : boxH;
+      const outW = swap ? boxH : boxW;
+      if (outH > state.height || outW > state.width) return state;
+      const centeredR = swap ? minR + Math.floor((boxH - boxW) / 2) : minR;
+      const centeredC = swap ? minC + Math.floor((boxW - boxH) / 2) : minC;
+      const originR = Math.max(0, Math.min(state.height - outH, centeredR));
+      const originC = Math.max(0, Math.min(state.width - outW, centeredC));
+
+      const writes: [number, number, Cell][] = positions.map(([r, c]) => [r, c, null]);
+      const cells = new Set<string>();
+      for (const [r, c] of positions) {
+        const [dr, dc] = transformCell(r - minR, c - minC, boxH, boxW, action.transform);
+        const nr = originR + dr;
+        const nc = originC + dc;
+        writes.push([nr, nc, state.grid[r][c]]);
+        cells.add(`${nr},${nc}`);
       }
-      return { ...state, grid, width: newW, height: newH, selection: { cells: new Set() } };
+      return { ...state, grid: setCells(state.grid, writes), selection: { cells } };
     }
     default:
       return state;
   }
 }
 
+function withLayers(state: EditorState, layers: Layer[]): EditorState {
+  return { ...state, layers, grid: flattenLayers(layers, state.width, state.height) };
+}
+
+// Routes grid edits to the active layer and handles layer management;
+// everything else falls through to coreReducer on the flattened grid
+function layerReducer(state: EditorState, action: EditorAction): EditorState {
+  if (LAYER_EDIT_ACTIONS.has(action.type)) {
+    const layer = getActiveLayer(state);
+    if (!layer || layer.locked || !layer.visible) return state;
+    const view = { ...state, grid: layer.grid };
+    const next = coreReducer(view, action);
+    if (next === view) return state;
+    if (next.grid === layer.grid) return { ...next, grid: state.grid };
+    const layers = state.layers.map((l) => (l.id === layer.id ? { ...l, grid: next.grid } : l));
+    // Only rows the edit replaced need compositing again
+    const changedRows: number[] = [];
+    next.grid.forEach((row, r) => { if (row !== layer.grid[r]) changedRows.push(r); });
+    return { ...next, layers, grid: reflattenRows(state.grid, layers, state.width, changedRows) };
+  }
+
+  if (WHOLE_GRID_ACTIONS.has(action.type)) {
+    const next = coreReducer(state, action);
+    if (next === state) return state;
+    const layers = state.layers.map((l) => ({ ...l, grid: coreReducer({ ...state, grid: l.grid }, action).grid }));
+    return withLayers(next, layers);
+  }
+
+  switch (action.type) {
+    case 'SET_BASE_GRID': {
+      const { width, height } = action;
+      let layers = replaceBaseGrid(state.layers, action.grid, width, height);
+      if (action.flattened) layers = distributeFlattened(layers, width, height, action.flattened);
+      return withLayers(
+        { ...state, width, height, selection: { cells: new Set() }, floating: null },
+        layers,
+      );
+    }
+    case 'APPLY_FLATTENED':
+      return withLayers(state, distributeFlattened(state.layers, state.width, state.height, action.grid));
+    case 'ADD_LAYER': {
+      const count = state.layers.filter((l) => l.kind === 'user').length;
+      const layer = createUserLayer(state.width, state.height, `Layer ${count + 1}`);
+      const idx = state.layers.findIndex((l) => l.id === state.activeLayerId);
+      const layers = [...state.layers];
+      layers.splice(idx + 1, 0, layer);
+      return { ...withLayers(state, layers), activeLayerId: layer.id };
+    }
+    case 'DELETE_LAYER': {
+      const idx = state.layers.findIndex((l) => l.id === action.id);
+      if (idx < 0 || state.layers[idx].kind === 'base') return state;
+      const layers = state.layers.filter((l) => l.id !== action.id);
+      const activeLayerId = state.activeLayerId === action.id ? layers[idx - 1].id : state.activeLayerId;
+      return { ...withLayers(state, layers), activeLayerId };
+    }
+    case 'SET_ACTIVE_LAYER':
+      if (!state.layers.some((l) => l.id === action.id)) return state;
+      return { ...state, activeLayerId: action.id };
+    case 'RENAME_LAYER':
+      return { ...state, layers: state.layers.map((l) => (l.id === action.id ? { ...l, name: action.name } : l)) };
+    case 'SET_LAYER_VISIBLE':
+      return withLayers(state, state.layers.map((l) => (l.id === action.id ? { ...l, visible: action.visible } : l)));
+    case 'SET_LAYER_LOCKED':
+      return { ...state, layers: state.layers.map((l) => (l.id === action.id ? { ...l, locked: action.locked } : l)) };
+    case 'MOVE_LAYER': {
+      // User layers reorder among themselves; the base layer stays at the bottom
+      const idx = state.layers.findIndex((l) => l.id === action.id);
+      const target = action.direction === 'up' ? idx + 1 : idx - 1;
+      if (idx < 1 || target < 1 || target >= state.layers.length) return state;
+      const layers = [...state.layers];
+      [layers[idx], layers[target]] = [layers[target], layers[idx]];
+      return withLayers(state, layers);
+    }
+    case 'FLATTEN_LAYERS': {
+      if (state.layers.length === 1) return state;
+      const base = state.layers.find((l) => l.kind === 'base')!;
+      const layers = [{ ...base, grid: state.grid, visible: true }];
+      return { ...withLayers(state, layers), activeLayerId: base.id };
+    }
+    default:
+      return coreReducer(state, action);
+  }
+}
+
+function undoStep(undoable: UndoableState): UndoableState {
+  const { state, inverse } = applyEntry(undoable.present, undoable.past[undoable.past.length - 1], 'undo');
+  return {
+    ...undoable,
+    past: undoable.past.slice(0, -1),
+    present: state,
+    future: [inverse, ...undoable.future],
+  };
+}
+
+function redoStep(undoable: UndoableState): UndoableState {
+  const { state, inverse } = applyEntry(undoable.present, undoable.future[0], 'redo');
+  return {
+    ...undoable,
+    past: [...undoable.past, inverse],
+    present: state,
+    future: undoable.future.slice(1),
+  };
+}
+
+function pushEntry(undoable: UndoableState, entry: HistoryEntry, present: EditorState): UndoableState {
+  return {
+    past: [...undoable.past.slice(-MAX_UNDO + 1), entry],
+    present,
+    future: [],
+    checkpoints: undoable.checkpoints,
+  };
+}
+
 export function editorReducer(undoable: UndoableState, action: EditorAction): UndoableState {
   if (action.type === 'UNDO') {
     if (undoable.past.length === 0) return undoable;
-    const previous = undoable.past[undoable.past.length - 1];
-    return {
-      past: undoable.past.slice(0, -1),
-      present: previous,
-      future: [undoable.present, ...undoable.future],
-    };
+    return undoStep(undoable);
   }
 
   if (action.type === 'REDO') {
     if (undoable.future.length === 0) return undoable;
-    const next = undoable.future[0];
-    return {
-      past: [...undoable.past, undoable.present],
-      present: next,
-      future: undoable.future.slice(1),
-    };
+    return redoStep(undoable);
+  }
+
+  if (action.type === 'JUMP_HISTORY') {
+    const target = Math.max(0, Math.min(action.index, undoable.past.length + undoable.future.length));
+    let next = undoable;
+    while (next.past.length > target) next = undoStep(next);
+    while (next.past.length < target) next = redoStep(next);
+    return next;
+  }
+
+  if (action.type === 'ADD_CHECKPOINT') {
+    const checkpoint = { id: generateId(), tabId: action.tabId, name: action.name, state: undoable.present };
+    return { ...undoable, checkpoints: [...undoable.checkpoints, checkpoint] };
+  }
+
+  if (action.type === 'DELETE_CHECKPOINT') {
+    return { ...undoable, checkpoints: undoable.checkpoints.filter((c) => c.id !== action.id) };
+  }
+
+  if (action.type === 'RESTORE_CHECKPOINT') {
+    const checkpoint = undoable.checkpoints.find((c) => c.id === action.id && c.tabId === action.tabId);
+    if (!checkpoint || checkpoint.state === undoable.present) return undoable;
+    // Keep the current tool and color; restoring is itself an undoable step
+    const { activeColor, activeTool } = undoable.present;
+    const restored = { ...checkpoint.state, activeColor, activeTool };
+    const entry: HistoryEntry = { kind: 'snapshot', label: `Restore “${checkpoint.name}”`, state: undoable.present };
+    return pushEntry(undoable, entry, restored);
   }
 
   if (action.type === 'STROKE_START') {
-    return { ...undoable, strokeAnchor: undoable.present };
+    return { ...undoable, strokeAnchor: undoable.present, strokeAction: undefined };
   }
 
   if (action.type === 'STROKE_END') {
     if (!undoable.strokeAnchor) return undoable;
     if (undoable.present === undoable.strokeAnchor) {
-      return { ...undoable, strokeAnchor: undefined };
+      return { ...undoable, strokeAnchor: undefined, strokeAction: undefined };
     }
-    return {
-      past: [...undoable.past.slice(-MAX_UNDO + 1), undoable.strokeAnchor],
-      present: undoable.present,
-      future: [],
-      strokeAnchor: undefined,
-    };
+    const entry = diffStates(undoable.strokeAnchor, undoable.present, undoable.strokeAction ?? action);
+    return pushEntry(undoable, entry, undoable.present);
   }
 
-  const newPresent = coreReducer(undoable.present, action);
+  const newPresent = layerReducer(undoable.present, action);
   if (newPresent === undoable.present) return undoable;
 
   if (UNDOABLE_ACTIONS.has(action.type)) {
     // During a stroke, accumulate changes without individual undo entries
     if (undoable.strokeAnchor) {
-      return { ...undoable, present: newPresent };
+      return { ...undoable, present: newPresent, strokeAction: action };
     }
-    return {
-      past: [...undoable.past.slice(-MAX_UNDO + 1), undoable.present],
-      present: newPresent,
-      future: [],
-    };
+    return pushEntry(undoable, diffStates(undoable.present, newPresent, action), newPresent);
   }
 
   return { ...undoable, present: newPresent };
@@ -0,0 +1,53 @@
+// Areas of the grid converted with their own values for some RenderOptions
+// (an ice sheet with less vibrancy, a desert with lower water sensitivity).
+// Like the classification mask, a region keeps the grid size it was drawn on
+// and is sampled by normalized position.
+import type { RenderOptions } from './imageToGrid';
+
+// Numeric options only — those can blend smoothly across a region's border
+export type RegionOption = 'waterDepth' | 'colorVibrancy' | 'coastlineWidth' | 'waterSensitivity' | 'ditherStrength';
+
+export const REGION_OPTIONS: { key: RegionOption; label: string }[] = [
+  { key: 'colorVibrancy', label: 'Color Vibrancy' },
+  { key: 'waterSensitivity', label: 'Water Sensitivity' },
+  { key: 'waterDepth', label: 'Water Depth' },
+  { key: 'coastlineWidth', label: 'Coastline Width' },
+  { key: 'ditherStrength', label: 'Dither Strength' },
+];
+
+export interface RenderRegion {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  cells: string; // one char per cell, row-major: '1' inside, '0' outside
+  overrides: Partial<Pick<RenderOptions, RegionOption>>;
+  feather: number; // blend width across the border, in cells
+}
+
+export const DEFAULT_REGION_FEATHER = 3;
+
+export function createRegion(id: string, name: string, selection: Set<string>, width: number, height: number): RenderRegion {
+  let cells = '';
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) cells += selection.has(`${r},${c}`) ? '1' : '0';
+  }
+  return { id, name, width, height, cells, overrides: {}, feather: DEFAULT_REGION_FEATHER };
+}
+
+export function regionContains(region: RenderRegion, row: number, col: number, gridW: number, gridH: number): boolean {
+  const rr = Math.min(region.height - 1, Math.floor(((row + 0.5) * region.height) / gridH));
+  const rc = Math.min(region.width - 1, Math.floor(((col + 0.5) * region.width) / gridW));
+  return region.cells[rr * region.width + rc] === '1';
+}
+
+/** The region's cells on a gridW × gridH grid, as selection keys. */
+export function regionSelection(region: RenderRegion, gridW: number, gridH: number): Set<string> {
+  const keys = new Set<string>();
+  for (let r = 0; r < gridH; r++) {
+    for (let c = 0; c < gridW; c++) {
+      if (regionContains(region, r, c, gridW, gridH)) keys.add(`${r},${c}`);
+    }
+  }
+  return keys;
+}
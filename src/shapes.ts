@@ -0,0 +1,67 @@
+export type ShapeKind = 'line' | 'rect' | 'ellipse';
+
+export interface CellPos {
+  row: number;
+  col: number;
+}
+
+// Bresenham line — always one dot wide, 8-connected
+function rasterizeLine(start: CellPos, end: CellPos): [number, number][] {
+  const cells: [number, number][] = [];
+  let r = start.row, c = start.col;
+  const dr = Math.abs(end.row - r), dc = Math.abs(end.col - c);
+  const sr = r < end.row ? 1 : -1, sc = c < end.col ? 1 : -1;
+  let err = dc - dr;
+  for (;;) {
+    cells.push([r, c]);
+    if (r === end.row && c === end.col) break;
+    const e2 = 2 * err;
+    if (e2 > -dr) { err -= dr; c += sc; }
+    if (e2 < dc) { err += dc; r += sr; }
+  }
+  return cells;
+}
+
+function rasterizeRect(minR: number, minC: number, maxR: number, maxC: number, filled: boolean): [number, number][] {
+  const cells: [number, number][] = [];
+  for (let r = minR; r <= maxR; r++) {
+    for (let c = minC; c <= maxC; c++) {
+      if (filled || r === minR || r === maxR || c === minC || c === maxC) cells.push([r, c]);
+    }
+  }
+  return cells;
+}
+
+// Ellipse inscribed in the bounding box; the outline keeps only inside cells
+// that touch the outside, which yields a one-dot-wide ring
+function rasterizeEllipse(minR: number, minC: number, maxR: number, maxC: number, filled: boolean): [number, number][] {
+  const cy = (minR + maxR) / 2, cx = (minC + maxC) / 2;
+  const ry = (maxR - minR) / 2 + 0.5, rx = (maxC - minC) / 2 + 0.5;
+  const inside = (r: number, c: number) =>
+    r >= minR && r <= maxR && c >= minC && c <= maxC &&
+    ((r - cy) / ry) ** 2 + ((c - cx) / rx) ** 2 <= 1;
+
+  const cells: [number, number][] = [];
+  for (let r = minR; r <= maxR; r++) {
+    for (let c = minC; c <= maxC; c++) {
+      if (!inside(r, c)) continue;
+      if (filled || !inside(r - 1, c) || !inside(r + 1, c) || !inside(r, c - 1) || !inside(r, c + 1)) {
+        cells.push([r, c]);
+      }
+    }
+  }
+  return cells;
+}
+
+/** Rasterize a shape dragged from start to end into [row, col] grid cells.
+ *  `filled` only applies to rectangles and ellipses. */
+export function rasterizeShape(shape: ShapeKind, start: CellPos, end: CellPos, filled: boolean): [number, number][] {
+  if (shape === 'line') return rasterizeLine(start, end);
+  const minR = Math.min(start.row, end.row);
+  const maxR = Math.max(start.row, end.row);
+  const minC = Math.min(start.col, end.col);
+  const maxC = Math.max(start.col, end.col);
+  return shape === 'rect'
+    ? rasterizeRect(minR, minC, maxR, maxC, filled)
+    : rasterizeEllipse(minR, minC, maxR, maxC, filled);
+}
@@ -0,0 +1,60 @@
+// Snapshot history: point-in-time copies of a tab's grid kept in IndexedDB, so
+// a refresh or a bad re-render can be rolled back after undo history is gone.
+// Auto snapshots are taken on a timer while the tab keeps changing; manual ones
+// on demand. Each tab is capped by count and by size, oldest auto ones going first.
+import { deleteSnapshots, generateId, loadSnapshots, saveSnapshot } from './storage';
+import type { FileData, Snapshot, SnapshotKind } from './storage';
+import type { Grid } from './types';
+
+export const SNAPSHOT_INTERVAL = 5 * 60 * 1000; // ms between auto snapshots of a changing tab
+export const MAX_SNAPSHOTS = 30;                // per tab
+export const MAX_SNAPSHOT_BYTES = 4 * 1024 * 1024; // per tab
+const THUMBNAIL_SIZE = 256; // longest side in px, at least one pixel per dot
+
+export function renderThumbnail(grid: Grid, width: number, height: number): Promise<Blob> {
+  const cell = Math.max(1, Math.floor(THUMBNAIL_SIZE / Math.max(width, height)));
+  const canvas = document.createElement('canvas');
+  canvas.width = width * cell;
+  canvas.height = height * cell;
+  const ctx = canvas.getContext('2d')!;
+  // Empty cells are black, as in the editor
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  for (let r = 0; r < height; r++) {
+    for (let c = 0; c < width; c++) {
+      const color = grid[r][c];
+      if (!color) continue;
+      ctx.fillStyle = color;
+      ctx.fillRect(c * cell, r * cell, cell, cell);
+    }
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
+
+/** Ids to delete so the rest fit both caps; the newest snapshot is always kept. */
+export function snapshotsOverCap(snapshots: Snapshot[]): string[] {
+  const [newest, ...rest] = [...snapshots].sort((a, b) => b.createdAt - a.createdAt);
+  if (!newest) return [];
+  // Oldest first, auto snapshots ahead of manual ones
+  const candidates = rest.reverse().sort((a, b) => Number(a.kind === 'manual') - Number(b.kind === 'manual'));
+  let count = snapshots.length;
+  let bytes = snapshots.reduce((sum, s) => sum + s.size, 0);
+  const drop: string[] = [];
+  for (const snapshot of candidates) {
+    if (count <= MAX_SNAPSHOTS && bytes <= MAX_SNAPSHOT_BYTES) break;
+    drop.push(snapshot.id);
+    count--;
+    bytes -= snapshot.size;
+  }
+  return drop;
+}
+
+/** Snapshot a tab's grid and prune the tab back under its caps; null if saving failed. */
+export async function takeSnapshot(tabId: string, data: FileData, kind: SnapshotKind): Promise<Snapshot | null> {
+  const thumbnail = await renderThumbnail(data.grid, data.width, data.height);
+  const snapshot = await saveSnapshot({ id: generateId(), tabId, createdAt: Date.now(), kind, data, thumbnail });
+  if (snapshot) await deleteSnapshots(snapshotsOverCap(await loadSnapshots(tabId)));
+  return snapshot;
+}
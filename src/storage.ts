@@ -1,9 +1,34 @@
-import type { Grid } from './types';
+// Persistence. Grids and images live in IndexedDB as binary (encoded grids,
+// image Blobs) behind an in-memory cache, so reads stay synchronous and writes
+// commit in the background; map saves are coalesced per tab. Small per-tab
+// settings stay in localStorage. Failed writes are reported to onStorageError
+// listeners, never dropped silently.
+import type { ClassificationMask } from './classificationMask';
+import { decodeGrid, gridPalette, packGrid, unpackGrid } from './gridEncoding';
+import type { EncodedGrid } from './gridEncoding';
+import type { ImageFraming } from './imageFraming';
+import type { RenderRegion } from './renderRegions';
+import type { Cell, Grid, Layer } from './types';
 
 const TABS_KEY = 'dotmaps-tabs';
-const FILE_PREFIX = 'dotmaps-file-';
-const IMAGE_PREFIX = 'dotmaps-img-';
 const ZOOM_PREFIX = 'dotmaps-zoom-';
+const MASK_PREFIX = 'dotmaps-mask-';
+const FRAMING_PREFIX = 'dotmaps-crop-';
+const REGIONS_PREFIX = 'dotmaps-regions-';
+// localStorage-era keys, moved into IndexedDB on first load
+const LEGACY_FILE_PREFIX = 'dotmaps-file-';
+const LEGACY_IMAGE_PREFIX = 'dotmaps-img-';
+const LEGACY_HEIGHTMAP_PREFIX = 'dotmaps-height-';
+
+const DB_NAME = 'dotmaps';
+const DB_VERSION = 2;
+const FILES = 'files';
+const IMAGES = 'images';
+const HEIGHTMAPS = 'heightmaps';
+const SNAPSHOTS = 'snapshots'; // v2; keyed by snapshot id, indexed by tab
+
+// A tab's map is written this long after its last change, not on every edit
+const FILE_SAVE_DELAY = 1000;
 
 export interface FileTab {
   id: string;
@@ -11,9 +36,10 @@ export interface FileTab {
 }
 
 export interface FileData {
-  grid: Grid;
+  grid: Grid; // flattened
   width: number;
   height: number;
+  layers?: Layer[]; // only stored when there are user layers
 }
 
 export interface TabsState {
@@ -21,10 +47,264 @@ export interface TabsState {
   activeTabId: string;
 }
 
+export type SnapshotKind = 'auto' | 'manual';
+
+// A point-in-time copy of a tab's grid; snapshots are read from IndexedDB on
+// demand rather than cached, since only the snapshot browser needs them
+export interface Snapshot {
+  id: string;
+  tabId: string;
+  createdAt: number; // ms since epoch
+  kind: SnapshotKind;
+  data: FileData;
+  thumbnail: Blob; // PNG, one pixel per dot or more
+  size: number;    // approximate stored bytes, for the per-tab cap
+}
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number;
+}
+
+// FileData as stored: grids run-length packed against one shared palette.
+// Records written before packing hold a typed-array EncodedGrid per grid.
+interface StoredFile {
+  width: number;
+  height: number;
+  palette?: Cell[];
+  grid: string | EncodedGrid;
+  layers?: (Omit<Layer, 'grid'> & { grid: string | EncodedGrid })[];
+}
+
+interface StoredSnapshot extends Omit<Snapshot, 'data'> {
+  data: StoredFile;
+}
+
+let db: IDBDatabase | null = null;
+const files = new Map<string, FileData>();
+const images = new Map<string, Blob>();
+const heightmaps = new Map<string, Blob>();
+// Tabs whose cached map hasn't been written yet, with their pending save timers
+const unsavedFiles = new Map<string, ReturnType<typeof setTimeout>>();
+
 export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
 }
 
+// --- Error and write notifications ---
+
+const errorListeners = new Set<(message: string) => void>();
+const writeListeners = new Set<() => void>();
+let lastError: string | null = null;
+
+/** Subscribe to storage failures; returns the unsubscribe function. */
+export function onStorageError(listener: (message: string) => void): () => void {
+  errorListeners.add(listener);
+  return () => errorListeners.delete(listener);
+}
+
+/** Subscribe to committed writes, e.g. to refresh the usage display. */
+export function onStorageWrite(listener: () => void): () => void {
+  writeListeners.add(listener);
+  return () => writeListeners.delete(listener);
+}
+
+/** The most recent failure, including ones raised before anything subscribed. */
+export function getLastStorageError(): string | null {
+  return lastError;
+}
+
+function reportError(what: string, err: unknown): void {
+  const reason = err instanceof DOMException && err.name === 'QuotaExceededError'
+    ? 'browser storage is full'
+    : err instanceof Error ? err.message : String(err);
+  lastError = `${what}: ${reason}`;
+  console.error(lastError, err);
+  errorListeners.forEach((listener) => listener(lastError!));
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+// --- IndexedDB plumbing ---
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const store of [FILES, IMAGES, HEIGHTMAPS]) {
+        if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+      }
+      if (!request.result.objectStoreNames.contains(SNAPSHOTS)) {
+        request.result.createObjectStore(SNAPSHOTS, { keyPath: 'id' }).createIndex('tabId', 'tabId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+async function readAll<T>(database: IDBDatabase, store: string): Promise<[string, T][]> {
+  const tx = database.transaction(store, 'readonly');
+  const keys = tx.objectStore(store).getAllKeys();
+  const values = tx.objectStore(store).getAll();
+  await transactionDone(tx);
+  return keys.result.map((key, i) => [String(key), values.result[i] as T]);
+}
+
+// Put (or delete, for undefined) in the background; failures surface via reportError.
+// Without a database this is a no-op: initStorage already reported that nothing is saved.
+function write(store: string, id: string, value: unknown, what: string): void {
+  if (!db) return;
+  try {
+    const tx = db.transaction(store, 'readwrite');
+    if (value === undefined) tx.objectStore(store).delete(id);
+    else tx.objectStore(store).put(value, id);
+    transactionDone(tx).then(
+      () => writeListeners.forEach((listener) => listener()),
+      (err) => reportError(what, err),
+    );
+  } catch (err) {
+    reportError(what, err);
+  }
+}
+
+function encodeFile(data: FileData): StoredFile {
+  const palette = gridPalette([data.grid, ...(data.layers ?? []).map((layer) => layer.grid)]);
+  return {
+    width: data.width,
+    height: data.height,
+    palette,
+    grid: packGrid(data.grid, palette),
+    layers: data.layers?.map((layer) => ({ ...layer, grid: packGrid(layer.grid, palette) })),
+  };
+}
+
+function decodeFile(stored: StoredFile): FileData {
+  const { width, height, palette = [] } = stored;
+  const unpack = (grid: string | EncodedGrid) =>
+    typeof grid === 'string' ? unpackGrid(grid, palette, width, height) : decodeGrid(grid);
+  return {
+    width,
+    height,
+    grid: unpack(stored.grid),
+    layers: stored.layers?.map((layer) => ({ ...layer, grid: unpack(layer.grid) })),
+  };
+}
+
+// --- Startup and migration ---
+
+// Tab data still under the localStorage-era keys, parsed
+function readLegacy() {
+  const legacyFiles: [string, FileData][] = [];
+  const legacyImages: [string, string][] = [];
+  const legacyHeightmaps: [string, string][] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)!;
+    const value = localStorage.getItem(key)!;
+    if (key.startsWith(LEGACY_FILE_PREFIX)) {
+      try {
+        legacyFiles.push([key.slice(LEGACY_FILE_PREFIX.length), JSON.parse(value) as FileData]);
+      } catch (err) {
+        // Corrupted entry — leave it where it is
+        reportError(`Couldn't read the saved map ${key}`, err);
+      }
+    } else if (key.startsWith(LEGACY_IMAGE_PREFIX)) {
+      legacyImages.push([key.slice(LEGACY_IMAGE_PREFIX.length), value]);
+    } else if (key.startsWith(LEGACY_HEIGHTMAP_PREFIX)) {
+      legacyHeightmaps.push([key.slice(LEGACY_HEIGHTMAP_PREFIX.length), value]);
+    }
+  }
+  return { legacyFiles, legacyImages, legacyHeightmaps };
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  return (await fetch(dataUrl)).blob();
+}
+
+// Copy legacy keys into IndexedDB one at a time, each removed once its copy has
+// committed. An entry that can't be read or copied is reported and left in place
+// for the next load; the others still move.
+async function migrateLocalStorage(database: IDBDatabase): Promise<void> {
+  const { legacyFiles, legacyImages, legacyHeightmaps } = readLegacy();
+  const entries = [
+    ...legacyFiles.map(([id, data]) => ({ store: FILES, prefix: LEGACY_FILE_PREFIX, id, read: async () => encodeFile(data) })),
+    ...legacyImages.map(([id, url]) => ({ store: IMAGES, prefix: LEGACY_IMAGE_PREFIX, id, read: () => dataUrlToBlob(url) })),
+    ...legacyHeightmaps.map(([id, url]) => ({ store: HEIGHTMAPS, prefix: LEGACY_HEIGHTMAP_PREFIX, id, read: () => dataUrlToBlob(url) })),
+  ];
+  for (const { store, prefix, id, read } of entries) {
+    try {
+      const value = await read();
+      const tx = database.transaction(store, 'readwrite');
+      tx.objectStore(store).put(value, id);
+      await transactionDone(tx);
+      localStorage.removeItem(prefix + id);
+    } catch (err) {
+      reportError(`Couldn't move ${prefix + id} out of localStorage`, err);
+    }
+  }
+}
+
+/**
+ * Open the database, migrate localStorage-era data and fill the cache. Must
+ * finish before the app reads anything. Never rejects: without IndexedDB the
+ * legacy data is still shown, and the failure is reported.
+ */
+export async function initStorage(): Promise<void> {
+  try {
+    const database = await openDatabase();
+    // A failed migration must not cost the session its database
+    try {
+      await migrateLocalStorage(database);
+    } catch (err) {
+      reportError("Couldn't move maps saved by an older version", err);
+    }
+    const [storedFiles, storedImages, storedHeightmaps] = await Promise.all([
+      readAll<StoredFile>(database, FILES),
+      readAll<Blob>(database, IMAGES),
+      readAll<Blob>(database, HEIGHTMAPS),
+    ]);
+    for (const [id, stored] of storedFiles) {
+      try {
+        files.set(id, decodeFile(stored));
+      } catch (err) {
+        reportError("Couldn't read a saved map", err);
+      }
+    }
+    for (const [id, blob] of storedImages) images.set(id, blob);
+    for (const [id, blob] of storedHeightmaps) heightmaps.set(id, blob);
+    db = database;
+    // Write coalesced map saves before the page goes away
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flushFileSaves();
+    });
+    window.addEventListener('pagehide', flushFileSaves);
+    // Ask the browser not to evict our data under storage pressure
+    navigator.storage?.persist?.().catch(() => {});
+  } catch (err) {
+    reportError("Couldn't open browser storage, so changes won't be saved", err);
+    const { legacyFiles, legacyImages, legacyHeightmaps } = readLegacy();
+    for (const [id, data] of legacyFiles) files.set(id, data);
+    await Promise.all([
+      ...legacyImages.map(async ([id, url]) => images.set(id, await dataUrlToBlob(url))),
+      ...legacyHeightmaps.map(async ([id, url]) => heightmaps.set(id, await dataUrlToBlob(url))),
+    ]).catch(() => {});
+  }
+}
+
+// --- Tabs and per-tab data ---
+
 export function loadTabs(): TabsState | null {
   try {
     const raw = localStorage.getItem(TABS_KEY);
@@ -38,61 +318,209 @@ export function loadTabs(): TabsState | null {
 }
 
 export function saveTabs(state: TabsState): void {
-  localStorage.setItem(TABS_KEY, JSON.stringify(state));
+  try {
+    localStorage.setItem(TABS_KEY, JSON.stringify(state));
+  } catch (err) {
+    reportError("Couldn't save the tab list", err);
+  }
 }
 
 export function loadFileData(id: string): FileData | null {
+  return files.get(id) ?? null;
+}
+
+function writeFile(id: string): void {
+  clearTimeout(unsavedFiles.get(id));
+  unsavedFiles.delete(id);
+  const data = files.get(id);
+  if (data) write(FILES, id, encodeFile(data), "Couldn't save the map");
+}
+
+// Write every map save still waiting on its delay
+function flushFileSaves(): void {
+  for (const id of [...unsavedFiles.keys()]) writeFile(id);
+}
+
+// Cached at once so reads see it; written once the tab has been quiet for FILE_SAVE_DELAY
+export function saveFileData(id: string, data: FileData): void {
+  files.set(id, data);
+  clearTimeout(unsavedFiles.get(id));
+  unsavedFiles.set(id, setTimeout(() => writeFile(id), FILE_SAVE_DELAY));
+}
+
+export function deleteFileData(id: string): void {
+  clearTimeout(unsavedFiles.get(id));
+  unsavedFiles.delete(id);
+  files.delete(id);
+  images.delete(id);
+  heightmaps.delete(id);
+  write(FILES, id, undefined, "Couldn't delete the map");
+  write(IMAGES, id, undefined, "Couldn't delete the source image");
+  write(HEIGHTMAPS, id, undefined, "Couldn't delete the heightmap");
+  localStorage.removeItem(ZOOM_PREFIX + id);
+  localStorage.removeItem(MASK_PREFIX + id);
+  localStorage.removeItem(FRAMING_PREFIX + id);
+  localStorage.removeItem(REGIONS_PREFIX + id);
+  deleteTabSnapshots(id);
+}
+
+/** Give tab `to` the source image, heightmap, framing, mask and regions of tab `from`. */
+export function copyTabSource(from: string, to: string): void {
+  const image = loadSourceImage(from);
+  if (image) saveSourceImage(to, image);
+  saveHeightmap(to, loadHeightmap(from));
+  saveFraming(to, loadFraming(from));
+  saveClassMask(to, loadClassMask(from));
+  saveRegions(to, loadRegions(from));
+}
+
+export function saveSourceImage(id: string, image: Blob): void {
+  images.set(id, image);
+  write(IMAGES, id, image, "Couldn't save the source image");
+}
+
+export function loadSourceImage(id: string): Blob | null {
+  return images.get(id) ?? null;
+}
+
+// Grayscale heightmap attached to the tab's source image; null removes it
+export function saveHeightmap(id: string, image: Blob | null): void {
+  if (image) heightmaps.set(id, image);
+  else heightmaps.delete(id);
+  write(HEIGHTMAPS, id, image ?? undefined, "Couldn't save the heightmap");
+}
+
+export function loadHeightmap(id: string): Blob | null {
+  return heightmaps.get(id) ?? null;
+}
+
+// Small settings written to localStorage; quota errors are reported like any other
+function setSetting(key: string, value: string, what: string): void {
   try {
-    const raw = localStorage.getItem(FILE_PREFIX + id);
-    if (!raw) return null;
-    return JSON.parse(raw) as FileData;
-  } catch {
-    return null;
+    localStorage.setItem(key, value);
+  } catch (err) {
+    reportError(what, err);
   }
 }
 
-export function saveFileData(id: string, data: FileData): void {
+// Water/land mask painted over the tab's source image; null removes it
+export function saveClassMask(id: string, mask: ClassificationMask | null): void {
+  if (!mask) {
+    localStorage.removeItem(MASK_PREFIX + id);
+    return;
+  }
+  setSetting(MASK_PREFIX + id, JSON.stringify(mask), "Couldn't save the water/land mask");
+}
+
+export function loadClassMask(id: string): ClassificationMask | null {
   try {
-    localStorage.setItem(FILE_PREFIX + id, JSON.stringify(data));
+    const raw = localStorage.getItem(MASK_PREFIX + id);
+    return raw ? JSON.parse(raw) as ClassificationMask : null;
   } catch {
-    // localStorage quota exceeded — try clearing source images to free space
-    try {
-      const tabs = loadTabs();
-      if (tabs) {
-        for (const tab of tabs.tabs) {
-          localStorage.removeItem(IMAGE_PREFIX + tab.id);
-        }
-      }
-      localStorage.setItem(FILE_PREFIX + id, JSON.stringify(data));
-    } catch {
-      // Still failing — silently drop the save
-    }
+    return null;
   }
 }
 
-export function deleteFileData(id: string): void {
-  localStorage.removeItem(FILE_PREFIX + id);
-  localStorage.removeItem(IMAGE_PREFIX + id);
-  localStorage.removeItem(ZOOM_PREFIX + id);
+// Crop/zoom/pan of the tab's source image; null = legacy full-image stretch
+export function saveFraming(id: string, framing: ImageFraming | null): void {
+  if (!framing) {
+    localStorage.removeItem(FRAMING_PREFIX + id);
+    return;
+  }
+  setSetting(FRAMING_PREFIX + id, JSON.stringify(framing), "Couldn't save the image framing");
 }
 
-export function saveSourceImage(id: string, dataUrl: string): void {
+export function loadFraming(id: string): ImageFraming | null {
   try {
-    localStorage.setItem(IMAGE_PREFIX + id, dataUrl);
+    const raw = localStorage.getItem(FRAMING_PREFIX + id);
+    return raw ? JSON.parse(raw) as ImageFraming : null;
   } catch {
-    // localStorage quota exceeded — non-fatal
+    return null;
   }
 }
 
-export function loadSourceImage(id: string): string | null {
-  return localStorage.getItem(IMAGE_PREFIX + id);
+// Regional render overrides drawn on the tab's grid
+export function saveRegions(id: string, regions: RenderRegion[]): void {
+  if (regions.length === 0) {
+    localStorage.removeItem(REGIONS_PREFIX + id);
+    return;
+  }
+  setSetting(REGIONS_PREFIX + id, JSON.stringify(regions), "Couldn't save the render regions");
+}
+
+export function loadRegions(id: string): RenderRegion[] {
+  try {
+    const raw = localStorage.getItem(REGIONS_PREFIX + id);
+    return raw ? JSON.parse(raw) as RenderRegion[] : [];
+  } catch {
+    return [];
+  }
 }
 
 export function saveZoom(id: string, zoom: number): void {
-  try { localStorage.setItem(ZOOM_PREFIX + id, String(zoom)); } catch { /* quota */ }
+  setSetting(ZOOM_PREFIX + id, String(zoom), "Couldn't save the zoom level");
 }
 
 export function loadZoom(id: string): number | null {
   const v = localStorage.getItem(ZOOM_PREFIX + id);
   return v ? parseFloat(v) : null;
 }
+
+// --- Snapshots ---
+
+/** A tab's snapshots, newest first; empty (and reported) when they can't be read. */
+export async function loadSnapshots(tabId: string): Promise<Snapshot[]> {
+  if (!db) return [];
+  try {
+    const tx = db.transaction(SNAPSHOTS, 'readonly');
+    const request = tx.objectStore(SNAPSHOTS).index('tabId').getAll(tabId);
+    await transactionDone(tx);
+    return (request.result as StoredSnapshot[])
+      .map((stored) => ({ ...stored, data: decodeFile(stored.data) }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (err) {
+    reportError("Couldn't read snapshots", err);
+    return [];
+  }
+}
+
+/** Store a snapshot; resolves to it with its size filled in, or null when the write failed. */
+export async function saveSnapshot(snapshot: Omit<Snapshot, 'size'>): Promise<Snapshot | null> {
+  if (!db) return null;
+  const data = encodeFile(snapshot.data);
+  const size = JSON.stringify(data).length + snapshot.thumbnail.size;
+  try {
+    const tx = db.transaction(SNAPSHOTS, 'readwrite');
+    tx.objectStore(SNAPSHOTS).put({ ...snapshot, data, size } satisfies StoredSnapshot);
+    await transactionDone(tx);
+    writeListeners.forEach((listener) => listener());
+    return { ...snapshot, size };
+  } catch (err) {
+    reportError("Couldn't save the snapshot", err);
+    return null;
+  }
+}
+
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+  if (!db || ids.length === 0) return;
+  try {
+    const tx = db.transaction(SNAPSHOTS, 'readwrite');
+    for (const id of ids) tx.objectStore(SNAPSHOTS).delete(id);
+    await transactionDone(tx);
+    writeListeners.forEach((listener) => listener());
+  } catch (err) {
+    reportError("Couldn't delete snapshots", err);
+  }
+}
+
+async function deleteTabSnapshots(tabId: string): Promise<void> {
+  if (!db) return;
+  try {
+    const tx = db.transaction(SNAPSHOTS, 'readonly');
+    const request = tx.objectStore(SNAPSHOTS).index('tabId').getAllKeys(tabId);
+    await transactionDone(tx);
+    await deleteSnapshots(request.result.map(String));
+  } catch (err) {
+    reportError("Couldn't delete the tab's snapshots", err);
+  }
+}
@@ -0,0 +1,57 @@
+export type SymmetryMode = 'off' | 'vertical' | 'horizontal' | 'both' | 'rotational';
+
+export interface SymmetrySettings {
+  mode: SymmetryMode;
+  // Axis positions in cell-edge units: an integer lies between two cells,
+  // a .5 value runs through the middle of a cell
+  axisX: number;
+  axisY: number;
+}
+
+export const DEFAULT_SYMMETRY: SymmetrySettings = { mode: 'off', axisX: 0, axisY: 0 };
+
+export function centeredSymmetry(mode: SymmetryMode, width: number, height: number): SymmetrySettings {
+  return { mode, axisX: width / 2, axisY: height / 2 };
+}
+
+/** The painted cell plus its mirrored counterparts, deduplicated and clipped to the grid. */
+export function symmetryCells(
+  row: number,
+  col: number,
+  sym: SymmetrySettings,
+  width: number,
+  height: number,
+): [number, number][] {
+  const mirrorCol = (c: number) => Math.round(2 * sym.axisX - c - 1);
+  const mirrorRow = (r: number) => Math.round(2 * sym.axisY - r - 1);
+
+  const points: [number, number][] = [[row, col]];
+  switch (sym.mode) {
+    case 'vertical':
+      points.push([row, mirrorCol(col)]);
+      break;
+    case 'horizontal':
+      points.push([mirrorRow(row), col]);
+      break;
+    case 'both':
+      points.push([row, mirrorCol(col)], [mirrorRow(row), col], [mirrorRow(row), mirrorCol(col)]);
+      break;
+    case 'rotational': {
+      // Quarter turns of the cell center around (axisX, axisY)
+      const dx = col + 0.5 - sym.axisX;
+      const dy = row + 0.5 - sym.axisY;
+      const at = (x: number, y: number): [number, number] =>
+        [Math.round(sym.axisY + y - 0.5), Math.round(sym.axisX + x - 0.5)];
+      points.push(at(-dy, dx), at(-dx, -dy), at(dy, -dx));
+      break;
+    }
+  }
+
+  const seen = new Set<string>();
+  return points.filter(([r, c]) => {
+    const key = `${r},${c}`;
+    if (r < 0 || r >= height || c < 0 || c >= width || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
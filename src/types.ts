@@ -1,43 +1,152 @@
-export type Tool = 'hand' | 'pen' | 'eraser' | 'select';
+import type { ShapeKind } from './shapes';
+
+export type Tool = 'hand' | 'pen' | 'eraser' | 'fill' | ShapeKind | 'select' | 'wand' | 'lasso';
+
+// How a new selection combines with the current one
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect';
 
 export type Cell = string | null; // hex color or null (empty)
 
 export type Grid = Cell[][];
 
+export interface Layer {
+  id: string;
+  name: string;
+  kind: 'base' | 'user'; // base = generated map that image re-conversion writes into
+  grid: Grid;            // empty cells are transparent to the layers below
+  visible: boolean;
+  locked: boolean;
+}
+
+// 90° rotations and mirror flips, applied to the grid or to a selected region
+export type Transform = 'cw' | 'ccw' | 'flip-h' | 'flip-v';
+
 export interface Selection {
   cells: Set<string>; // "row,col" keys
 }
 
+export interface WandOptions {
+  contiguous: boolean; // only cells connected to the clicked one
+  byGroup: boolean;    // match any color in the clicked color's water/land group
+}
+
+// Copied cells with offsets relative to the top-left of the selection's bounding box
+export interface Clipboard {
+  cells: { dRow: number; dCol: number; color: string }[];
+  width: number;
+  height: number;
+  originRow: number;
+  originCol: number;
+}
+
+// One source → target pair of a color replace; null is an empty cell
+export interface ColorMapping {
+  from: Cell;
+  to: Cell;
+}
+
+// Paste layer floating above the grid until committed
+export interface FloatingLayer {
+  clipboard: Clipboard;
+  row: number;
+  col: number;
+  liftedFrom: Set<string>; // "row,col" keys cleared from the grid on commit (move)
+}
+
 export interface EditorState {
-  grid: Grid;
+  grid: Grid; // flattened composite of the visible layers
+  layers: Layer[]; // bottom to top; the base layer is always first
+  activeLayerId: string;
   width: number;
   height: number;
   activeColor: string;
   activeTool: Tool;
+  shapeFilled: boolean; // rect/ellipse tools draw filled shapes instead of outlines
+  wandOptions: WandOptions;
   selection: Selection;
+  floating: FloatingLayer | null;
+}
+
+// One changed cell in one layer; undo writes `before`, redo writes `after`
+export interface CellPatch {
+  layerId: string;
+  row: number;
+  col: number;
+  before: Cell;
+  after: Cell;
+}
+
+// Everything in EditorState except the pixel data, restored as-is on undo/redo
+export type HistoryProps = Omit<EditorState, 'grid' | 'layers'>;
+
+// Edits that keep the layer structure are stored as cell patches; anything that
+// changes dimensions or the layer stack falls back to a full snapshot
+export type HistoryEntry =
+  | { kind: 'cells'; label: string; patches: CellPatch[]; props: HistoryProps }
+  | { kind: 'snapshot'; label: string; state: EditorState };
+
+// Named full-state pin, kept outside past/future so MAX_UNDO never evicts it.
+// Undo history spans tab switches, so each pin remembers the tab it belongs to.
+export interface Checkpoint {
+  id: string;
+  tabId: string;
+  name: string;
+  state: EditorState;
 }
 
 export interface UndoableState {
   present: EditorState;
-  past: EditorState[];
-  future: EditorState[];
-  strokeAnchor?: EditorState;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  checkpoints: Checkpoint[];
+  strokeAnchor?: EditorState; // present at STROKE_START, diffed against at STROKE_END
+  strokeAction?: EditorAction; // last undoable action of the stroke, used for its label
 }
 
 export type EditorAction =
   | { type: 'PAINT'; row: number; col: number; color: string }
   | { type: 'ERASE'; row: number; col: number }
+  | { type: 'FILL'; row: number; col: number; color: string; global: boolean }
+  | { type: 'DRAW_SHAPE'; shape: ShapeKind; startRow: number; startCol: number; endRow: number; endCol: number; color: string; filled: boolean }
   | { type: 'SET_COLOR'; color: string }
   | { type: 'SET_TOOL'; tool: Tool }
-  | { type: 'SELECT_CELL'; row: number; col: number; additive: boolean }
-  | { type: 'SELECT_RECT'; startRow: number; startCol: number; endRow: number; endCol: number; additive: boolean }
+  | { type: 'SET_SHAPE_FILLED'; filled: boolean }
+  | { type: 'SET_WAND_OPTIONS'; options: Partial<WandOptions> }
+  | { type: 'SELECT_CELL'; row: number; col: number; mode: SelectionMode }
+  | { type: 'SELECT_RECT'; startRow: number; startCol: number; endRow: number; endCol: number; mode: SelectionMode }
+  | { type: 'SELECT_WAND'; row: number; col: number; mode: SelectionMode }
+  | { type: 'SELECT_LASSO'; points: { row: number; col: number }[]; mode: SelectionMode }
+  | { type: 'INVERT_SELECTION' }
+  | { type: 'SET_SELECTION'; cells: Set<string> }
   | { type: 'CLEAR_SELECTION' }
   | { type: 'RECOLOR_SELECTION'; color: string }
   | { type: 'DELETE_SELECTION' }
+  | { type: 'REPLACE_COLORS'; mapping: ColorMapping[]; selectionOnly: boolean }
+  | { type: 'PASTE'; clipboard: Clipboard }
+  | { type: 'LIFT_SELECTION' }
+  | { type: 'MOVE_FLOATING'; dRow: number; dCol: number }
+  | { type: 'COMMIT_FLOATING' }
+  | { type: 'CANCEL_FLOATING' }
   | { type: 'RESIZE'; width: number; height: number }
-  | { type: 'LOAD_GRID'; grid: Grid; width: number; height: number }
+  | { type: 'LOAD_GRID'; grid: Grid; width: number; height: number; layers?: Layer[] }
+  | { type: 'SET_BASE_GRID'; grid: Grid; width: number; height: number; flattened?: Grid }
+  | { type: 'APPLY_FLATTENED'; grid: Grid }
+  | { type: 'ADD_LAYER' }
+  | { type: 'DELETE_LAYER'; id: string }
+  | { type: 'SET_ACTIVE_LAYER'; id: string }
+  | { type: 'RENAME_LAYER'; id: string; name: string }
+  | { type: 'SET_LAYER_VISIBLE'; id: string; visible: boolean }
+  | { type: 'SET_LAYER_LOCKED'; id: string; locked: boolean }
+  | { type: 'MOVE_LAYER'; id: string; direction: 'up' | 'down' }
+  | { type: 'FLATTEN_LAYERS' }
   | { type: 'ROTATE_GRID'; direction: 'cw' | 'ccw' }
+  | { type: 'FLIP_GRID'; axis: 'horizontal' | 'vertical' }
+  | { type: 'TRANSFORM_SELECTION'; transform: Transform }
   | { type: 'STROKE_START' }
   | { type: 'STROKE_END' }
   | { type: 'UNDO' }
-  | { type: 'REDO' };
+  | { type: 'REDO' }
+  | { type: 'JUMP_HISTORY'; index: number } // 0 = oldest state, past.length = present
+  | { type: 'ADD_CHECKPOINT'; name: string; tabId: string }
+  | { type: 'RESTORE_CHECKPOINT'; id: string; tabId: string } // ignored for another tab's checkpoint
+  | { type: 'DELETE_CHECKPOINT'; id: string };